@@ -3,13 +3,34 @@ import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { prettyJSON } from "hono/pretty-json";
 
-import { journeys } from "./routes/journeys";
+import { loadDeutschlandTicketRules } from "./lib/deutschland-ticket-rules";
+import { getStationIndex } from "./lib/station-index";
+import { prepareStationSearch } from "./lib/station-search";
+import { createDbVendoTransportClient } from "./lib/transport-client";
+import { withUpstreamFixtures } from "./lib/upstream-fixtures";
+import { admin } from "./routes/admin";
+import { coverage } from "./routes/coverage";
+import { deeplink } from "./routes/deeplink";
+import { createJourneysRoute } from "./routes/journeys";
 import { monitoring } from "./routes/monitoring";
 import { parseUrl } from "./routes/parse-url";
-import { splitJourney } from "./routes/split-journey";
+import { createSplitJourneyRoute } from "./routes/split-journey";
+import { stations } from "./routes/stations";
+
+// Deutschland-Ticket rules are validated at boot; invalid rules stop startup
+loadDeutschlandTicketRules();
+
+// Station data and search index are built at boot, not on the first search
+getStationIndex()
+  .then(prepareStationSearch)
+  .catch((error) => console.error("Failed to build station index:", error));
 
 const app = new Hono();
 
+// Upstream client, configured once and injected into the routes.
+// UPSTREAM_MODE=record|replay serves it from fixture files instead.
+const transportClient = withUpstreamFixtures(createDbVendoTransportClient());
+
 // Middleware
 app.use(logger());
 app.use(prettyJSON());
@@ -17,8 +38,8 @@ app.use(
   "*",
   cors({
     origin: process.env.CORS_ORIGINS?.split(",") || ["*"],
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type"],
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowHeaders: ["Content-Type", "Authorization", "Last-Event-ID"],
   }),
 );
 
@@ -38,10 +59,14 @@ app.get("/health", (c) => {
 });
 
 // API Routes
-app.route("/api/journeys", journeys);
-app.route("/api/split-journey", splitJourney);
+app.route("/api/journeys", createJourneysRoute(transportClient));
+app.route("/api/split-journey", createSplitJourneyRoute(transportClient));
 app.route("/api/parse-url", parseUrl);
+app.route("/api/deeplink", deeplink);
+app.route("/api/stations", stations);
+app.route("/api/coverage", coverage);
 app.route("/api/monitoring", monitoring);
+app.route("/api/admin", admin);
 
 app.onError((err, c) => {
   console.error(err);
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+// Controllable Redis stand-in; unavailable unless a test says otherwise
+let redisAvailable = false;
+let redisGet: (key: string) => Promise<string | null> = async () => null;
+const stored = new Map<string, string>();
+
+mock.module("./redis", () => ({
+  isRedisAvailable: async () => redisAvailable,
+  getRedisClient: async () => ({
+    get: (key: string) => redisGet(key),
+    setex: async (key: string, _ttl: number, value: string) => {
+      stored.set(key, value);
+    },
+  }),
+}));
+
+const { withCache } = await import("./cache");
+
+const failingFetch = () => {
+  const fetchFn = mock(async (): Promise<string> => {
+    throw new Error("upstream failed");
+  });
+  return fetchFn;
+};
+
+describe("withCache", () => {
+  beforeEach(() => {
+    redisAvailable = false;
+    redisGet = async () => null;
+    stored.clear();
+  });
+
+  test("does not retry a failing fetch when Redis is up", async () => {
+    redisAvailable = true;
+    const fetchFn = failingFetch();
+
+    await expect(withCache("test", { ttl: 60 }, fetchFn)).rejects.toThrow(
+      "upstream failed",
+    );
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not retry a failing fetch without Redis", async () => {
+    const fetchFn = failingFetch();
+
+    await expect(withCache("test", { ttl: 60 }, fetchFn)).rejects.toThrow(
+      "upstream failed",
+    );
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("falls back to a plain fetch when Redis itself fails", async () => {
+    redisAvailable = true;
+    redisGet = async () => {
+      throw new Error("connection reset");
+    };
+    const fetchFn = mock(async () => "fresh");
+
+    const result = await withCache("test", { ttl: 60 }, fetchFn);
+
+    expect(result).toMatchObject({ hit: false, value: "fresh" });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test("serves cached values without fetching", async () => {
+    redisAvailable = true;
+    redisGet = async () => JSON.stringify("cached");
+    const fetchFn = mock(async () => "fresh");
+
+    const result = await withCache("test", { ttl: 60 }, fetchFn);
+
+    expect(result).toMatchObject({ hit: true, value: "cached" });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
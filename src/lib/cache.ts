@@ -109,11 +109,26 @@ export async function withCache<T>(
       ? generateCacheKey(key, params)
       : `betterbahn:${config.keyPrefix || "default"}:${key}`;
 
+  // fetchFn runs at most once: its own errors (upstream failures, aborts,
+  // rate limits) are rethrown, only Redis errors fall back to a plain fetch
+  let fetched: { value: T } | undefined;
+  let fetchFailed = false;
+  const fetchOnce = async () => {
+    try {
+      const value = await fetchFn();
+      fetched = { value };
+      return value;
+    } catch (error) {
+      fetchFailed = true;
+      throw error;
+    }
+  };
+
   try {
     // Check if Redis is available
     if (!(await isRedisAvailable())) {
       console.warn("Redis unavailable, executing fetch function directly");
-      const value = await fetchFn();
+      const value = await fetchOnce();
       const duration = Date.now() - startTime;
 
       return {
@@ -152,7 +167,7 @@ export async function withCache<T>(
     }
 
     // Cache miss - execute fetch function
-    const value = await fetchFn();
+    const value = await fetchOnce();
 
     // Store in cache
     try {
@@ -184,10 +199,14 @@ export async function withCache<T>(
       duration,
     };
   } catch (error) {
+    if (fetchFailed) {
+      throw error;
+    }
+
     // If anything goes wrong with cache, just execute the fetch function
     console.error(`Cache operation failed for key ${cacheKey}:`, error);
 
-    const value = await fetchFn();
+    const value = fetched ? fetched.value : await fetchOnce();
     const duration = Date.now() - startTime;
 
     return {
@@ -0,0 +1,39 @@
+/**
+ * Upper bound of live upstream calls for one request. Cached responses are
+ * free; only calls that reach the upstream scheduler count.
+ */
+export interface CallBudget {
+  limit: number;
+  used: number;
+  /** Take one call from the budget or throw CallBudgetExhaustedError */
+  consume(): void;
+  exhausted(): boolean;
+}
+
+/**
+ * Thrown when a request has used up its upstream call budget
+ */
+export class CallBudgetExhaustedError extends Error {
+  constructor(public limit: number) {
+    super(`Upstream call budget of ${limit} calls exhausted`);
+    this.name = "CallBudgetExhaustedError";
+  }
+}
+
+export function createCallBudget(limit: number): CallBudget {
+  const budget: CallBudget = {
+    limit,
+    used: 0,
+    consume() {
+      if (budget.exhausted()) {
+        throw new CallBudgetExhaustedError(limit);
+      }
+      budget.used++;
+    },
+    exhausted() {
+      return budget.used >= limit;
+    },
+  };
+
+  return budget;
+}
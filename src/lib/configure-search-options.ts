@@ -19,6 +19,11 @@ export const configureSearchOptions = (urlParams: JourneyUrlParams) => {
     options.departure = new Date(urlParams.departure);
   }
 
+  // Zwischenhalt (Station-ID) falls angegeben
+  if (urlParams.via) {
+    options.via = urlParams.via;
+  }
+
   // BahnCard-Rabattkarte hinzufügen falls angegeben
   if (urlParams.bahnCard && urlParams.bahnCard !== "none") {
     const discount = parseInt(urlParams.bahnCard, 10);
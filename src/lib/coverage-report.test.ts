@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { findDeutschlandTicketBoundaries } from "../utils/deutschlandTicketUtils";
+import type { VendoJourney, VendoLeg } from "../utils/schemas";
+import { createCoverageReport } from "./coverage-report";
+import { loadDeutschlandTicketRules } from "./deutschland-ticket-rules";
+import type { StationIndex } from "./station-index";
+
+const stop = (id: string, name: string, time: string) => ({
+  stop: { id, name },
+  arrival: `2025-03-03T${time}:00+01:00`,
+  departure: `2025-03-03T${time}:00+01:00`,
+  loadFactor: undefined,
+});
+
+// IC 2223 from Essen: Dortmund - Siegen is opened to the Deutschland-Ticket,
+// Hagen Hbf lies on the way but is not a station of that rule
+const icLeg: VendoLeg = {
+  origin: { id: "8000098", name: "Essen Hbf" },
+  destination: { id: "8000046", name: "Siegen Hbf" },
+  departure: "2025-03-03T08:15:00+01:00",
+  arrival: "2025-03-03T10:20:00+01:00",
+  line: { name: "IC 2223", product: "national" },
+  duration: undefined,
+  walking: false,
+  stopovers: [
+    stop("8000098", "Essen Hbf", "08:15"),
+    stop("8000080", "Dortmund Hbf", "08:37"),
+    stop("8000251", "Witten Hbf", "08:47"),
+    stop("8000142", "Hagen Hbf", "08:56"),
+    stop("8000227", "Letmathe", "09:06"),
+    stop("8000046", "Siegen Hbf", "10:20"),
+  ],
+};
+
+const emptyIndex: StationIndex = { stations: [], byId: new Map() };
+
+describe("Deutschland-Ticket coverage", () => {
+  beforeAll(() => {
+    loadDeutschlandTicketRules();
+  });
+
+  test("split boundaries and coverage report agree on IC stretches", () => {
+    const boundaries = findDeutschlandTicketBoundaries([icLeg]);
+    const report = createCoverageReport(
+      { legs: [icLeg] } as VendoJourney,
+      emptyIndex,
+    );
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toMatchObject({
+      stop: { id: "8000080" },
+      coveredFrom: true,
+    });
+
+    const [leg] = report.legs;
+    expect(leg).toMatchObject({
+      coverage: "partial",
+      reason: "ic-route-partial",
+      rule: { id: "dortmund-siegen-dillenburg" },
+    });
+    expect(leg.uncoveredStretches).toEqual([
+      expect.objectContaining({
+        from: { id: "8000098", name: "Essen Hbf" },
+        to: { id: "8000080", name: "Dortmund Hbf" },
+      }),
+    ]);
+  });
+
+  test("covers the whole leg when a rule spans it", () => {
+    const leg = {
+      ...icLeg,
+      origin: { id: "8000080", name: "Dortmund Hbf" },
+      stopovers: icLeg.stopovers?.slice(1),
+    };
+
+    expect(findDeutschlandTicketBoundaries([leg])).toEqual([]);
+    expect(
+      createCoverageReport({ legs: [leg] } as VendoJourney, emptyIndex),
+    ).toMatchObject({ coverage: "full", extraTicket: null });
+  });
+});
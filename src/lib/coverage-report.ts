@@ -0,0 +1,269 @@
+import {
+  findCoverageSpans,
+  legIsFlixTrain,
+  legStops,
+} from "../utils/deutschlandTicketUtils";
+import type { VendoJourney, VendoLeg } from "../utils/schemas";
+import type { DeutschlandTicketRule } from "./deutschland-ticket-rules";
+import { distanceMeters } from "./station-grid";
+import type { StationIndex } from "./station-index";
+
+/**
+ * Why a leg is (not) covered by the Deutschland-Ticket
+ */
+export type CoverageReason =
+  | "walking"
+  | "local-transport"
+  | "ic-route"
+  | "ic-route-partial"
+  | "long-distance"
+  | "flixtrain"
+  | "unknown-line";
+
+const REASON_TEXT: Record<CoverageReason, string> = {
+  walking: "Fußweg",
+  "local-transport": "Nahverkehr, im Deutschland-Ticket enthalten",
+  "ic-route": "IC/ICE-Strecke mit Deutschland-Ticket-Freigabe",
+  "ic-route-partial":
+    "IC/ICE nur auf einem Teil der Strecke für das Deutschland-Ticket freigegeben",
+  "long-distance": "Fernverkehr, nicht im Deutschland-Ticket enthalten",
+  flixtrain: "FlixTrain, nicht im Deutschland-Ticket enthalten",
+  "unknown-line": "Unbekanntes Verkehrsmittel, Abdeckung nicht prüfbar",
+};
+
+interface CoverageStop {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Part of a leg that needs a ticket besides the Deutschland-Ticket
+ */
+export interface UncoveredStretch {
+  from: CoverageStop;
+  to: CoverageStop;
+  departure?: string;
+  arrival?: string;
+}
+
+export interface LegCoverage {
+  index: number;
+  line: string | null;
+  product: string | null;
+  origin: CoverageStop;
+  destination: CoverageStop;
+  departure: string;
+  arrival: string;
+  coverage: "full" | "partial" | "none";
+  reason: CoverageReason;
+  reasonText: string;
+  /** Rule that opens this IC/ICE stretch to the Deutschland-Ticket */
+  rule?: { id: string; name: string };
+  uncoveredStretches: UncoveredStretch[];
+}
+
+/**
+ * One ticket from the first to the last uncovered stop. Covered parts in
+ * between ride along, as that is usually cheaper than several tickets.
+ */
+export interface ExtraTicket {
+  from: CoverageStop;
+  to: CoverageStop;
+  departure?: string;
+  arrival?: string;
+  /** Number of uncovered stretches the ticket spans */
+  stretches: number;
+  distanceKm: number | null;
+  journeyDistanceKm: number | null;
+  /**
+   * Journey price scaled by the distance share of the ticket; null without a
+   * journey price or stop coordinates
+   */
+  estimatedPrice: number | null;
+}
+
+export interface CoverageReport {
+  coverage: "full" | "partial" | "none";
+  legs: LegCoverage[];
+  extraTicket: ExtraTicket | null;
+}
+
+const asTime = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+function toStop(stop?: { id: string; name?: string }): CoverageStop {
+  return { id: stop?.id ?? "", name: stop?.name };
+}
+
+/**
+ * Rule and uncovered stretches of an IC/ICE leg, from the same coverage spans
+ * the split candidates use (Deutschland-Ticket boundaries)
+ */
+function icStretches(leg: VendoLeg) {
+  const stops = legStops(leg);
+  const uncovered: UncoveredStretch[] = [];
+  let rule: DeutschlandTicketRule | undefined;
+
+  for (const span of findCoverageSpans(leg, stops)) {
+    if (span.covered) {
+      rule ??= span.rule;
+      continue;
+    }
+
+    const from = stops[span.from];
+    const to = stops[span.to];
+    const previous = uncovered[uncovered.length - 1];
+    if (previous && previous.to.id === from.stop?.id) {
+      previous.to = toStop(to.stop);
+      previous.arrival = asTime(to.arrival);
+    } else {
+      uncovered.push({
+        from: toStop(from.stop),
+        to: toStop(to.stop),
+        departure: asTime(from.departure),
+        arrival: asTime(to.arrival),
+      });
+    }
+  }
+
+  return { uncovered, rule };
+}
+
+function legCoverage(leg: VendoLeg, index: number): LegCoverage {
+  const base = {
+    index,
+    line: leg.line?.name ?? null,
+    product: leg.line?.product ?? null,
+    origin: toStop(leg.origin),
+    destination: toStop(leg.destination),
+    departure: leg.departure,
+    arrival: leg.arrival,
+  };
+  const wholeLeg: UncoveredStretch = {
+    from: base.origin,
+    to: base.destination,
+    departure: leg.departure,
+    arrival: leg.arrival,
+  };
+  const result = (
+    coverage: LegCoverage["coverage"],
+    reason: CoverageReason,
+    uncoveredStretches: UncoveredStretch[],
+    rule?: DeutschlandTicketRule,
+  ): LegCoverage => ({
+    ...base,
+    coverage,
+    reason,
+    reasonText: REASON_TEXT[reason],
+    ...(rule && { rule: { id: rule.id, name: rule.name } }),
+    uncoveredStretches,
+  });
+
+  if (leg.walking) return result("full", "walking", []);
+  if (!leg.line) return result("none", "unknown-line", [wholeLeg]);
+  if (legIsFlixTrain(leg)) return result("none", "flixtrain", [wholeLeg]);
+
+  const product = leg.line.product?.toLowerCase() ?? "";
+  if (!["national", "nationalexpress"].includes(product)) {
+    return result("full", "local-transport", []);
+  }
+
+  const { uncovered, rule } = icStretches(leg);
+  if (!rule) return result("none", "long-distance", [wholeLeg]);
+  return uncovered.length === 0
+    ? result("full", "ic-route", [], rule)
+    : result("partial", "ic-route-partial", uncovered, rule);
+}
+
+function distanceKm(
+  index: StationIndex,
+  fromId: string,
+  toId: string,
+): number | null {
+  const from = index.byId.get(fromId);
+  const to = index.byId.get(toId);
+  return from && to ? distanceMeters(from, to) / 1000 : null;
+}
+
+/**
+ * Distance along the journey's stops, from stop `fromId` to stop `toId`
+ * (whole journey without bounds). Stops without coordinates are skipped.
+ */
+function pathDistanceKm(
+  journey: VendoJourney,
+  index: StationIndex,
+  fromId?: string,
+  toId?: string,
+): number | null {
+  const stops = journey.legs
+    .filter((leg) => !leg.walking)
+    .flatMap((leg) => legStops(leg).flatMap(({ stop }) => stop?.id ?? []))
+    .filter((id, i, ids) => i === 0 || id !== ids[i - 1]);
+
+  const startIndex = fromId ? stops.indexOf(fromId) : 0;
+  const endIndex = toId ? stops.lastIndexOf(toId) : stops.length - 1;
+  if (startIndex < 0 || endIndex <= startIndex) return null;
+
+  const located = stops
+    .slice(startIndex, endIndex + 1)
+    .filter((id) => index.byId.has(id));
+  if (located.length < 2) return null;
+
+  let total = 0;
+  for (let i = 1; i < located.length; i++) {
+    total += distanceKm(index, located[i - 1], located[i]) ?? 0;
+  }
+  return total;
+}
+
+function extraTicket(
+  journey: VendoJourney,
+  legs: LegCoverage[],
+  index: StationIndex,
+): ExtraTicket | null {
+  const stretches = legs.flatMap((leg) => leg.uncoveredStretches);
+  if (stretches.length === 0) return null;
+
+  const first = stretches[0];
+  const last = stretches[stretches.length - 1];
+  const distance = pathDistanceKm(journey, index, first.from.id, last.to.id);
+  const journeyDistance = pathDistanceKm(journey, index);
+  const price = journey.price?.amount;
+
+  const round = (value: number | null, factor: number) =>
+    value === null ? null : Math.round(value * factor) / factor;
+
+  return {
+    from: first.from,
+    to: last.to,
+    departure: first.departure,
+    arrival: last.arrival,
+    stretches: stretches.length,
+    distanceKm: round(distance, 10),
+    journeyDistanceKm: round(journeyDistance, 10),
+    estimatedPrice:
+      price !== undefined && distance !== null && journeyDistance
+        ? round(price * Math.min(distance / journeyDistance, 1), 100)
+        : null,
+  };
+}
+
+/**
+ * Deutschland-Ticket coverage of a journey, leg by leg, with the uncovered
+ * stretches and the extra ticket they need
+ */
+export function createCoverageReport(
+  journey: VendoJourney,
+  index: StationIndex,
+): CoverageReport {
+  const legs = journey.legs.map(legCoverage);
+  const rideLegs = legs.filter((leg) => leg.reason !== "walking");
+
+  const coverage = rideLegs.every((leg) => leg.coverage === "full")
+    ? "full"
+    : rideLegs.every((leg) => leg.coverage === "none")
+      ? "none"
+      : "partial";
+
+  return { coverage, legs, extraTicket: extraTicket(journey, legs, index) };
+}
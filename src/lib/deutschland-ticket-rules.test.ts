@@ -0,0 +1,103 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  DeutschlandTicketRulesError,
+  findCoveringRule,
+  getDeutschlandTicketRules,
+  loadDeutschlandTicketRules,
+  reloadDeutschlandTicketRules,
+} from "./deutschland-ticket-rules";
+import { getStationIndex } from "./station-index";
+
+const bundledRules = JSON.parse(
+  readFileSync(
+    new URL("../data/deutschland-ticket-rules.json", import.meta.url),
+    "utf8",
+  ),
+);
+const corpus = JSON.parse(
+  readFileSync(
+    new URL("../data/deutschland-ticket-corpus.json", import.meta.url),
+    "utf8",
+  ),
+);
+
+let rulesDir: string | undefined;
+
+/** Point the loader at a temporary rules file */
+function useRulesFile(content: unknown) {
+  rulesDir = mkdtempSync(join(tmpdir(), "dt-rules-"));
+  const file = join(rulesDir, "rules.json");
+  writeFileSync(file, JSON.stringify(content));
+  process.env.DEUTSCHLAND_TICKET_RULES_FILE = file;
+}
+
+describe("Deutschland-Ticket rules", () => {
+  beforeAll(() => {
+    loadDeutschlandTicketRules();
+  });
+
+  afterEach(() => {
+    delete process.env.DEUTSCHLAND_TICKET_RULES_FILE;
+    if (rulesDir) rmSync(rulesDir, { recursive: true, force: true });
+    rulesDir = undefined;
+  });
+
+  test("rule stations exist in db-hafas-stations under their names", async () => {
+    const { byId } = await getStationIndex();
+    const { rules } = getDeutschlandTicketRules();
+
+    const mismatches = rules.flatMap((rule) =>
+      rule.stations
+        .filter((station) => byId.get(station.id)?.name !== station.name)
+        .map(
+          (station) =>
+            `${rule.id}: ${station.id} "${station.name}" is "${byId.get(station.id)?.name ?? "unknown"}"`,
+        ),
+    );
+    expect(mismatches).toEqual([]);
+  });
+
+  test("bundled rules match every corpus case", () => {
+    const { rules } = getDeutschlandTicketRules();
+
+    for (const testCase of corpus.cases) {
+      const rule = findCoveringRule(rules, {
+        lineName: testCase.line,
+        originId: testCase.origin,
+        destinationId: testCase.destination,
+        departure: testCase.departure,
+      });
+      expect({ case: testCase.description, covered: Boolean(rule) }).toEqual({
+        case: testCase.description,
+        covered: testCase.covered,
+      });
+    }
+  });
+
+  test("rejects rules that contradict the corpus and keeps the old ones", async () => {
+    const before = getDeutschlandTicketRules();
+    useRulesFile({
+      ...bundledRules,
+      rules: bundledRules.rules.filter(
+        (rule: { id: string }) => rule.id !== "dortmund-siegen-dillenburg",
+      ),
+    });
+
+    const error = await reloadDeutschlandTicketRules().catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeutschlandTicketRulesError);
+    expect(error.issues.join("\n")).toContain("IC 2223 Dortmund Hbf");
+    expect(getDeutschlandTicketRules()).toBe(before);
+  });
+
+  test("fails loading on an invalid rules file", () => {
+    useRulesFile({ version: 1, rules: [{ id: "broken", stations: [] }] });
+
+    expect(() => loadDeutschlandTicketRules()).toThrow(
+      DeutschlandTicketRulesError,
+    );
+  });
+});
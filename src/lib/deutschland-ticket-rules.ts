@@ -0,0 +1,250 @@
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+/**
+ * Train pattern of a rule: a category ("IC", all IC trains) or one train
+ * ("IC 2223")
+ */
+const TRAIN_PATTERN = /^(IC|ICE|EC) ?(\d+)?$/;
+
+const ruleSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    /** First and last day (inclusive) the rule applies, local dates */
+    validFrom: z.iso.date(),
+    validUntil: z.iso.date().optional(),
+    /** Stations of the covered stretch; origin and destination must be in it */
+    stations: z
+      .array(z.object({ id: z.string().regex(/^\d+$/), name: z.string() }))
+      .min(2),
+    /** Covered trains; without, every IC/ICE on the stretch is covered */
+    trains: z.array(z.string().regex(TRAIN_PATTERN)).min(1).optional(),
+  })
+  .refine((rule) => !rule.validUntil || rule.validFrom <= rule.validUntil, {
+    message: "validFrom must not be after validUntil",
+  });
+
+const rulesFileSchema = z
+  .object({
+    version: z.number().int().positive(),
+    rules: z.array(ruleSchema),
+  })
+  .refine(
+    ({ rules }) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+    { message: "Rule IDs must be unique" },
+  );
+
+const corpusSchema = z.object({
+  cases: z.array(
+    z.object({
+      description: z.string(),
+      line: z.string(),
+      origin: z.string(),
+      destination: z.string(),
+      departure: z.string(),
+      covered: z.boolean(),
+    }),
+  ),
+});
+
+export type DeutschlandTicketRule = z.infer<typeof ruleSchema>;
+
+export interface DeutschlandTicketRules {
+  version: number;
+  rules: DeutschlandTicketRule[];
+  loadedAt: string;
+}
+
+/**
+ * A stretch of one IC/ICE train, as checked against the rules
+ */
+export interface CoverageQuery {
+  lineName: string;
+  originId?: string;
+  destinationId?: string;
+  /** ISO departure time; its date decides which rules are valid */
+  departure: string;
+}
+
+/**
+ * Thrown when a rules file fails validation or contradicts the corpus. The
+ * rules in use stay unchanged.
+ */
+export class DeutschlandTicketRulesError extends Error {
+  constructor(
+    message: string,
+    public issues: string[],
+  ) {
+    super(message);
+    this.name = "DeutschlandTicketRulesError";
+  }
+}
+
+const BUNDLED_RULES = new URL(
+  "../data/deutschland-ticket-rules.json",
+  import.meta.url,
+);
+const CORPUS = new URL(
+  "../data/deutschland-ticket-corpus.json",
+  import.meta.url,
+);
+
+function rulesPath(): string | URL {
+  return process.env.DEUTSCHLAND_TICKET_RULES_FILE || BUNDLED_RULES;
+}
+
+let activeRules: DeutschlandTicketRules | null = null;
+
+/**
+ * Line name as "<CATEGORY> <NUMBER>", e.g. "ICE  1076" -> "ICE 1076"
+ */
+function normalizeLineName(name: string) {
+  return name.trim().toUpperCase().replace(/\s+/g, " ");
+}
+
+function trainMatches(pattern: string, lineName: string) {
+  const [, category, number] = pattern.match(TRAIN_PATTERN) ?? [];
+  const [lineCategory, lineNumber] = normalizeLineName(lineName).split(" ");
+  return category === lineCategory && (!number || number === lineNumber);
+}
+
+/**
+ * First rule covering the stretch, if any. Matching is by station ID and
+ * train, so similar station names no longer match each other.
+ */
+export function findCoveringRule(
+  rules: DeutschlandTicketRule[],
+  { lineName, originId, destinationId, departure }: CoverageQuery,
+): DeutschlandTicketRule | undefined {
+  if (!originId || !destinationId) return undefined;
+  // Upstream times carry the local offset, so the prefix is the local date
+  const date = departure.slice(0, 10);
+
+  return rules.find((rule) => {
+    if (date < rule.validFrom) return false;
+    if (rule.validUntil && date > rule.validUntil) return false;
+
+    const stationIds = rule.stations.map((station) => station.id);
+    if (!stationIds.includes(originId) || !stationIds.includes(destinationId)) {
+      return false;
+    }
+
+    return (
+      !rule.trains || rule.trains.some((train) => trainMatches(train, lineName))
+    );
+  });
+}
+
+/**
+ * Corpus cases the rules get wrong, as readable messages
+ */
+function checkCorpus(
+  rules: DeutschlandTicketRule[],
+  corpus: z.infer<typeof corpusSchema>,
+): string[] {
+  return corpus.cases.flatMap((testCase) => {
+    const covered = Boolean(
+      findCoveringRule(rules, {
+        lineName: testCase.line,
+        originId: testCase.origin,
+        destinationId: testCase.destination,
+        departure: testCase.departure,
+      }),
+    );
+    return covered === testCase.covered
+      ? []
+      : [
+          `${testCase.description}: expected ${
+            testCase.covered ? "covered" : "not covered"
+          }`,
+        ];
+  });
+}
+
+function parseJson(content: string, label: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new DeutschlandTicketRulesError(`${label} is not valid JSON`, [
+      (error as Error).message,
+    ]);
+  }
+}
+
+/**
+ * Validate a rules file against the schema and the pinned coverage corpus
+ */
+function validateRules(
+  rulesContent: string,
+  corpusContent: string,
+): DeutschlandTicketRules {
+  const parsed = rulesFileSchema.safeParse(
+    parseJson(rulesContent, "Rules file"),
+  );
+  if (!parsed.success) {
+    throw new DeutschlandTicketRulesError(
+      "Invalid Deutschland-Ticket rules",
+      parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      ),
+    );
+  }
+
+  const corpus = corpusSchema.parse(parseJson(corpusContent, "Corpus"));
+  const failures = checkCorpus(parsed.data.rules, corpus);
+  if (failures.length > 0) {
+    throw new DeutschlandTicketRulesError(
+      "Deutschland-Ticket rules contradict the coverage corpus",
+      failures,
+    );
+  }
+
+  return { ...parsed.data, loadedAt: new Date().toISOString() };
+}
+
+/**
+ * Load and validate the rules at startup, so an invalid rules file stops the
+ * server from booting instead of failing its first coverage check
+ */
+export function loadDeutschlandTicketRules(): DeutschlandTicketRules {
+  activeRules = validateRules(
+    readFileSync(rulesPath(), "utf8"),
+    readFileSync(CORPUS, "utf8"),
+  );
+  console.log(
+    `Deutschland-Ticket rules loaded: ${activeRules.rules.length} rules (version ${activeRules.version})`,
+  );
+  return activeRules;
+}
+
+/**
+ * Rules in use. Synchronous, as coverage checks run inside synchronous
+ * journey processing; loadDeutschlandTicketRules() must have run before.
+ */
+export function getDeutschlandTicketRules(): DeutschlandTicketRules {
+  if (!activeRules) {
+    throw new Error(
+      "Deutschland-Ticket rules not loaded, call loadDeutschlandTicketRules() at startup",
+    );
+  }
+  return activeRules;
+}
+
+/**
+ * Re-read the rules file at runtime. Invalid rules are rejected with a
+ * DeutschlandTicketRulesError and the previous rules stay active.
+ */
+export async function reloadDeutschlandTicketRules(): Promise<DeutschlandTicketRules> {
+  const [rulesContent, corpusContent] = await Promise.all([
+    readFile(rulesPath(), "utf8"),
+    readFile(CORPUS, "utf8"),
+  ]).catch((error) => {
+    throw new DeutschlandTicketRulesError("Rules file could not be read", [
+      (error as Error).message,
+    ]);
+  });
+  activeRules = validateRules(rulesContent, corpusContent);
+  return activeRules;
+}
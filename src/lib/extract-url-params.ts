@@ -4,12 +4,15 @@ export const extractUrlParams = (url: string) => {
   return {
     from: searchParams.get("from"),
     to: searchParams.get("to"),
+    via: searchParams.get("via"),
     departure: searchParams.get("departure"),
     results: searchParams.get("results") || "10",
     bahnCard: searchParams.get("bahnCard"),
     hasDeutschlandTicket: searchParams.get("hasDeutschlandTicket") === "true",
     passengerAge: searchParams.get("passengerAge"),
     travelClass: searchParams.get("travelClass") || "2",
+    travellers: searchParams.get("travellers"),
+    format: searchParams.get("format") || "json",
   };
 };
 
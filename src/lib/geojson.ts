@@ -0,0 +1,108 @@
+import type { VendoJourney, VendoLeg } from "../utils/schemas";
+import type { StationIndex } from "./station-index";
+
+type Position = [longitude: number, latitude: number];
+
+interface Feature<G, P> {
+  type: "Feature";
+  geometry: G;
+  properties: P;
+}
+
+export interface FeatureCollection {
+  type: "FeatureCollection";
+  features: Feature<
+    | { type: "LineString"; coordinates: Position[] }
+    | { type: "Point"; coordinates: Position },
+    Record<string, unknown>
+  >[];
+}
+
+/**
+ * A trip to draw on a map: one segment per ticket, split stations between them
+ */
+export interface MapItinerary {
+  segments: VendoJourney[];
+}
+
+function stationPosition(
+  index: StationIndex,
+  id?: string,
+): Position | undefined {
+  const station = id ? index.byId.get(id) : undefined;
+  return station ? [station.longitude, station.latitude] : undefined;
+}
+
+/**
+ * Coordinates of a leg through all its stopovers. Stops missing from the
+ * offline dataset are left out.
+ */
+function legCoordinates(leg: VendoLeg, index: StationIndex): Position[] {
+  const stopIds = leg.stopovers?.length
+    ? leg.stopovers.map((stopover) => stopover.stop?.id)
+    : [leg.origin?.id, leg.destination?.id];
+
+  return stopIds.flatMap((id) => {
+    const position = stationPosition(index, id);
+    return position ? [position] : [];
+  });
+}
+
+/**
+ * Build a GeoJSON FeatureCollection with one LineString per leg and one Point
+ * per split station. Coordinates come from the offline station index, so no
+ * upstream calls are needed.
+ */
+export function createItineraryGeoJson(
+  itineraries: MapItinerary[],
+  index: StationIndex,
+): FeatureCollection {
+  const features: FeatureCollection["features"] = [];
+
+  itineraries.forEach(({ segments }, itineraryIndex) => {
+    segments.forEach((segment, segmentIndex) => {
+      for (const leg of segment.legs) {
+        const coordinates = legCoordinates(leg, index);
+        // A LineString needs at least two positions
+        if (coordinates.length < 2) continue;
+
+        features.push({
+          type: "Feature",
+          geometry: { type: "LineString", coordinates },
+          properties: {
+            kind: "leg",
+            itinerary: itineraryIndex,
+            ticket: segmentIndex + 1,
+            line: leg.walking ? null : (leg.line?.name ?? null),
+            walking: Boolean(leg.walking),
+            origin: leg.origin?.name ?? leg.origin?.id,
+            destination: leg.destination?.name ?? leg.destination?.id,
+            departure: leg.departure,
+            arrival: leg.arrival,
+          },
+        });
+      }
+
+      if (segmentIndex === 0) return;
+
+      const station = segment.legs[0]?.origin;
+      const coordinates = stationPosition(index, station?.id);
+      if (!coordinates) return;
+
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates },
+        properties: {
+          kind: "split-station",
+          itinerary: itineraryIndex,
+          ticket: segmentIndex + 1,
+          id: station?.id,
+          name: station?.name,
+          departure: segment.legs[0].departure,
+        },
+      });
+    });
+  });
+
+  return { type: "FeatureCollection", features };
+}
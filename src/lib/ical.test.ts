@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import type { VendoJourney } from "../utils/schemas";
+import { createItineraryCalendar } from "./ical";
+
+const segment = (
+  from: string,
+  to: string,
+  departure: string,
+  arrival: string,
+): VendoJourney =>
+  ({
+    legs: [
+      {
+        origin: { id: from, name: from },
+        destination: { id: to, name: to },
+        departure,
+        arrival,
+        line: { name: "ICE 597", product: "nationalExpress" },
+        duration: undefined,
+        walking: false,
+      },
+    ],
+  }) as VendoJourney;
+
+const uids = (calendar: string) =>
+  calendar
+    .split("\r\n")
+    .filter((line) => line.startsWith("UID:"))
+    .map((line) => line.slice(4));
+
+describe("itinerary calendar", () => {
+  test("gives the same leg in two itineraries distinct UIDs", () => {
+    const first = segment(
+      "8000105",
+      "8000096",
+      "2025-03-03T08:00:00+01:00",
+      "2025-03-03T09:20:00+01:00",
+    );
+    const second = segment(
+      "8000096",
+      "8000261",
+      "2025-03-03T09:25:00+01:00",
+      "2025-03-03T11:40:00+01:00",
+    );
+
+    const calendar = createItineraryCalendar([
+      { segments: [first, second] },
+      { segments: [first, second] },
+    ]);
+
+    const ids = uids(calendar);
+    expect(ids).toHaveLength(6);
+    expect(new Set(ids).size).toBe(6);
+  });
+});
@@ -0,0 +1,303 @@
+import type { VendoJourney, VendoLeg } from "../utils/schemas";
+
+const TIME_ZONE = "Europe/Berlin";
+const PRODUCT_ID = "-//BetterBahn//Split API//DE";
+
+/**
+ * Rules for Europe/Berlin (CET/CEST since 1996), so clients without a
+ * time zone database still show local times
+ */
+const BERLIN_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/**
+ * A trip to put into the calendar. A plain journey has one segment; a split
+ * itinerary has one segment per ticket, split stations lie in between.
+ */
+export interface CalendarItinerary {
+  segments: VendoJourney[];
+}
+
+const berlinFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Local Europe/Berlin date-time in iCalendar form (20250101T083000)
+ */
+function toBerlinDateTime(date: Date): string {
+  const parts = Object.fromEntries(
+    berlinFormatter.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+}
+
+function toUtcDateTime(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545, section 3.1)
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function stationName(station?: { name?: string; id?: string }) {
+  return station?.name || station?.id || "Unbekannt";
+}
+
+function platformText(label: string, platform?: string | null) {
+  return platform ? `${label} Gleis ${platform}` : label;
+}
+
+/**
+ * Event UID from its parts. Callers include the itinerary number, so the same
+ * leg in two itineraries of one calendar gets two UIDs.
+ */
+function uid(...parts: (string | undefined)[]) {
+  return `${parts
+    .filter(Boolean)
+    .join("-")
+    .replace(/[^A-Za-z0-9-]/g, "")}@betterbahn`;
+}
+
+function event(
+  {
+    id,
+    start,
+    end,
+    summary,
+    location,
+    description,
+    url,
+  }: {
+    id: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    location?: string;
+    description: string[];
+    url?: string;
+  },
+  stamp: string,
+): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${id}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${TIME_ZONE}:${toBerlinDateTime(start)}`,
+    // Zero-length events are dropped by some clients
+    `DTEND;TZID=${TIME_ZONE}:${toBerlinDateTime(
+      end > start ? end : new Date(start.getTime() + 60_000),
+    )}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `DESCRIPTION:${escapeText(description.join("\n"))}`,
+    ...(url ? [`URL:${url}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+function legEvent(
+  leg: VendoLeg,
+  ticket: {
+    itinerary: number;
+    index: number;
+    count: number;
+    segment: VendoJourney;
+  },
+  endsAtSplit: boolean,
+  stamp: string,
+) {
+  const line = leg.walking ? "Fußweg" : leg.line?.name || "Zug";
+  const from = stationName(leg.origin);
+  const to = stationName(leg.destination);
+
+  const description = [
+    platformText(`Ab ${from}`, leg.departurePlatform),
+    platformText(`An ${to}`, leg.arrivalPlatform),
+  ];
+  if (ticket.count > 1) {
+    description.push(`Ticket ${ticket.index + 1} von ${ticket.count}`);
+  }
+  if (endsAtSplit) {
+    description.push(`Split-Bahnhof ${to}: ab hier gilt das nächste Ticket`);
+  }
+
+  return event(
+    {
+      id: uid(
+        `j${ticket.itinerary}`,
+        `t${ticket.index}`,
+        leg.origin?.id,
+        leg.destination?.id,
+        toUtcDateTime(new Date(leg.departure)),
+        leg.line?.name,
+      ),
+      start: new Date(leg.departure),
+      end: new Date(leg.arrival),
+      summary: `${line}: ${from} → ${to}`,
+      location: platformText(from, leg.departurePlatform),
+      description,
+      url: ticket.segment.bookingUrl,
+    },
+    stamp,
+  );
+}
+
+/**
+ * Short event at a split station: same train means "stay in your seat"
+ */
+function splitEvent(
+  previous: VendoJourney,
+  next: VendoJourney,
+  itinerary: number,
+  ticketNumber: number,
+  stamp: string,
+) {
+  const arrivingLeg = previous.legs[previous.legs.length - 1];
+  const departingLeg = next.legs[0];
+  const station = stationName(departingLeg.origin);
+  const sameTrain =
+    Boolean(arrivingLeg.line?.name) &&
+    arrivingLeg.line?.name === departingLeg.line?.name;
+
+  return event(
+    {
+      id: uid(
+        "split",
+        `j${itinerary}`,
+        departingLeg.origin?.id,
+        toUtcDateTime(new Date(departingLeg.departure)),
+      ),
+      start: new Date(arrivingLeg.arrival),
+      end: new Date(departingLeg.departure),
+      summary: sameTrain
+        ? `Sitzen bleiben in ${station}: Ticket ${ticketNumber} beginnt`
+        : `Umstieg in ${station}: Ticket ${ticketNumber} beginnt`,
+      location: station,
+      description: [
+        sameTrain
+          ? `Im ${departingLeg.line?.name} sitzen bleiben, ab ${station} gilt Ticket ${ticketNumber}.`
+          : `Ab ${station} gilt Ticket ${ticketNumber}.`,
+      ],
+      url: next.bookingUrl,
+    },
+    stamp,
+  );
+}
+
+/**
+ * Build an iCalendar file with one event per leg and one event per split
+ * station. Times are local Europe/Berlin times with a VTIMEZONE block.
+ */
+export function createItineraryCalendar(
+  itineraries: CalendarItinerary[],
+  now = new Date(),
+): string {
+  const stamp = toUtcDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...BERLIN_VTIMEZONE,
+  ];
+
+  itineraries.forEach(({ segments }, itinerary) => {
+    segments.forEach((segment, index) => {
+      if (index > 0) {
+        lines.push(
+          ...splitEvent(
+            segments[index - 1],
+            segment,
+            itinerary,
+            index + 1,
+            stamp,
+          ),
+        );
+      }
+
+      segment.legs.forEach((leg, legIndex) => {
+        const endsAtSplit =
+          index < segments.length - 1 && legIndex === segment.legs.length - 1;
+        lines.push(
+          ...legEvent(
+            leg,
+            { itinerary, index, count: segments.length, segment },
+            endsAtSplit,
+            stamp,
+          ),
+        );
+      });
+    });
+  });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Response headers for an .ics download
+ */
+export function calendarHeaders(filename: string) {
+  return {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  };
+}
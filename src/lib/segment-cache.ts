@@ -0,0 +1,85 @@
+import type { SearchJourneysOptions } from "db-vendo-client";
+import { type CacheResult, withCache } from "./cache";
+
+/**
+ * Segment price cache TTL in seconds
+ */
+const SEGMENT_CACHE_TTL = 600; // 10 minutes
+
+/**
+ * Identifies a priced segment: station pair, departure and tariff inputs
+ */
+export interface SegmentCacheKey {
+  from: string;
+  to: string;
+  departure: Date;
+  options: SearchJourneysOptions;
+}
+
+/**
+ * Per-analysis counters for cached vs. live segment lookups
+ */
+export interface SegmentCacheStats {
+  cached: number;
+  live: number;
+}
+
+export function createSegmentCacheStats(): SegmentCacheStats {
+  return { cached: 0, live: 0 };
+}
+
+/**
+ * Build the cache parameters for a segment. Only inputs that change the price
+ * are part of the key, so concurrent analyses share entries for the same train.
+ */
+function segmentCacheParams({ from, to, departure, options }: SegmentCacheKey) {
+  const loyaltyCard = options.loyaltyCard as
+    | { discount?: number; class?: number }
+    | undefined;
+
+  return {
+    from,
+    to,
+    departure: departure.toISOString(),
+    bahnCard: loyaltyCard?.discount ?? "none",
+    travelClass: options.firstClass ? 1 : 2,
+    age: options.age,
+    deutschlandTicket: Boolean(options.deutschlandTicketDiscount),
+    results: options.results,
+  };
+}
+
+/**
+ * Shared segment price cache on top of withCache. `onLiveFetch` runs once
+ * before a live fetch (not on cache hits), e.g. to take a call from a budget;
+ * it may throw to skip the fetch.
+ */
+export async function withSegmentCache<T>(
+  segment: SegmentCacheKey,
+  fetchFn: () => Promise<T>,
+  stats?: SegmentCacheStats,
+  onLiveFetch?: () => void,
+): Promise<CacheResult<T>> {
+  const result = await withCache(
+    "segment-prices",
+    {
+      ttl: SEGMENT_CACHE_TTL,
+      keyPrefix: "segments",
+    },
+    () => {
+      onLiveFetch?.();
+      return fetchFn();
+    },
+    segmentCacheParams(segment),
+  );
+
+  if (stats) {
+    if (result.hit) {
+      stats.cached++;
+    } else {
+      stats.live++;
+    }
+  }
+
+  return result;
+}
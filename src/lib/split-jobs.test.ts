@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+// Redis stand-in; unavailable unless a test says otherwise. `eval` mirrors the
+// compare-and-set script: write only if the stored value is unchanged.
+let redisAvailable = false;
+let afterGet: (key: string) => Promise<void> = async () => {};
+const stored = new Map<string, string>();
+
+mock.module("./redis", () => ({
+  isRedisAvailable: async () => redisAvailable,
+  getRedisClient: async () => ({
+    get: async (key: string) => {
+      const value = stored.get(key) ?? null;
+      await afterGet(key);
+      return value;
+    },
+    setex: async (key: string, _ttl: number, value: string) => {
+      stored.set(key, value);
+    },
+    eval: async (
+      _script: string,
+      _keys: number,
+      key: string,
+      expected: string,
+      value: string,
+    ) => {
+      if (stored.get(key) !== expected) return 0;
+      stored.set(key, value);
+      return 1;
+    },
+  }),
+}));
+
+const { cancelSplitJob, createSplitJob, getSplitJob, updateSplitJob } =
+  await import("./split-jobs");
+
+describe("split jobs", () => {
+  beforeEach(() => {
+    redisAvailable = false;
+    afterGet = async () => {};
+    stored.clear();
+  });
+
+  test("a cancel between reading and writing a progress update wins", async () => {
+    redisAvailable = true;
+    const job = await createSplitJob(10, 100);
+    await updateSplitJob(job.id, { status: "running" });
+
+    // Another instance cancels right after the update has read the job
+    let cancelled = false;
+    afterGet = async () => {
+      if (cancelled) return;
+      cancelled = true;
+      afterGet = async () => {};
+      await cancelSplitJob(job.id);
+    };
+
+    const result = await updateSplitJob(job.id, {
+      progress: { checked: 5, total: 10, message: "Prüfe Stationen..." },
+    });
+
+    expect(result?.status).toBe("cancelled");
+    const saved = await getSplitJob(job.id);
+    expect(saved?.status).toBe("cancelled");
+    expect(saved?.progress.message).toBe("Analyse abgebrochen");
+  });
+
+  test("a finished job cannot be cancelled", async () => {
+    redisAvailable = true;
+    const job = await createSplitJob(10, 100);
+    await updateSplitJob(job.id, { status: "completed" });
+
+    const result = await cancelSplitJob(job.id);
+
+    expect(result?.status).toBe("completed");
+  });
+
+  test("cancelled jobs ignore later updates without Redis", async () => {
+    const job = await createSplitJob(10, 100);
+    await cancelSplitJob(job.id);
+
+    const result = await updateSplitJob(job.id, { status: "completed" });
+
+    expect(result?.status).toBe("cancelled");
+    expect((await getSplitJob(job.id))?.status).toBe("cancelled");
+  });
+
+  test("the fallback store drops the oldest jobs beyond its cap", async () => {
+    const first = await createSplitJob(10, 100);
+    for (let i = 0; i < 1000; i++) {
+      await createSplitJob(10, 100);
+    }
+    const last = await createSplitJob(10, 100);
+
+    expect(await getSplitJob(first.id)).toBeNull();
+    expect((await getSplitJob(last.id))?.status).toBe("queued");
+  });
+
+  test("unknown jobs are not created by updates", async () => {
+    redisAvailable = true;
+
+    expect(await updateSplitJob("missing", { status: "running" })).toBeNull();
+    expect(await cancelSplitJob("missing")).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+import { randomUUID } from "node:crypto";
+import type { ProgressInfo } from "../utils/types";
+import { getRedisClient, isRedisAvailable } from "./redis";
+
+/**
+ * Job state TTL in seconds
+ */
+const SPLIT_JOB_TTL = 60 * 60; // 1 hour
+
+export type SplitJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * State of an asynchronous split analysis
+ */
+export interface SplitJob {
+  id: string;
+  status: SplitJobStatus;
+  progress: ProgressInfo;
+  /** Options found so far; complete once the job is completed */
+  splitOptions: unknown[];
+  originalPrice: number;
+  /** Round trips only: options and combined result of the return journey */
+  returnSplitOptions?: unknown[];
+  returnOriginalPrice?: number;
+  roundTrip?: unknown;
+  upstreamBudget?: { limit: number; used: number };
+  /** Stations left unchecked because the upstream budget ran out */
+  skippedStations?: unknown[];
+  /** Departure window searches only: ranked trains around the departure */
+  departureWindow?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fallback store when Redis is unavailable (single instance only)
+ */
+const memoryJobs = new Map<string, { job: SplitJob; expiresAt: number }>();
+
+/**
+ * Upper bound of jobs in the fallback store; the oldest are dropped first
+ */
+const MAX_MEMORY_JOBS = 1000;
+
+function jobKey(id: string) {
+  return `betterbahn:split-job:${id}`;
+}
+
+/**
+ * Write a job only if it is unchanged since it was read (ARGV[1]). Returns 1
+ * when written, 0 when the job changed or is gone.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call("SETEX", KEYS[1], ARGV[3], ARGV[2])
+return 1
+`;
+
+/**
+ * Conflicting writes to one job are rare (a cancel during an update), so a
+ * few attempts are enough
+ */
+const MAX_MODIFY_ATTEMPTS = 5;
+
+async function saveSplitJob(job: SplitJob): Promise<void> {
+  if (await isRedisAvailable()) {
+    const client = await getRedisClient();
+    await client.setex(jobKey(job.id), SPLIT_JOB_TTL, JSON.stringify(job));
+    return;
+  }
+
+  const now = Date.now();
+  memoryJobs.set(job.id, {
+    job,
+    expiresAt: now + SPLIT_JOB_TTL * 1000,
+  });
+  sweepMemoryJobs(now);
+}
+
+/**
+ * Drop expired jobs, then the oldest ones beyond MAX_MEMORY_JOBS. Maps keep
+ * insertion order, so the first entries are the oldest jobs.
+ */
+function sweepMemoryJobs(now: number) {
+  for (const [id, { expiresAt }] of memoryJobs) {
+    if (expiresAt < now) {
+      memoryJobs.delete(id);
+    }
+  }
+  for (const id of memoryJobs.keys()) {
+    if (memoryJobs.size <= MAX_MEMORY_JOBS) {
+      break;
+    }
+    memoryJobs.delete(id);
+  }
+}
+
+function getMemoryJob(id: string): SplitJob | null {
+  const entry = memoryJobs.get(id);
+  if (!entry || entry.expiresAt < Date.now()) {
+    memoryJobs.delete(id);
+    return null;
+  }
+  return entry.job;
+}
+
+/**
+ * Get a job by ID from Redis (or the local fallback store)
+ */
+export async function getSplitJob(id: string): Promise<SplitJob | null> {
+  if (await isRedisAvailable()) {
+    const client = await getRedisClient();
+    const value = await client.get(jobKey(id));
+    return value ? (JSON.parse(value) as SplitJob) : null;
+  }
+
+  return getMemoryJob(id);
+}
+
+/**
+ * Apply `change` to a stored job without losing concurrent writes: in Redis
+ * the job is only written if nobody changed it since it was read, otherwise it
+ * is read again and `change` re-applied. `change` returns null to keep the job
+ * as it is.
+ */
+async function modifySplitJob(
+  id: string,
+  change: (job: SplitJob) => SplitJob | null,
+): Promise<SplitJob | null> {
+  if (!(await isRedisAvailable())) {
+    const job = getMemoryJob(id);
+    if (!job) {
+      return null;
+    }
+    const updated = change(job);
+    if (updated) {
+      await saveSplitJob(updated);
+    }
+    return updated ?? job;
+  }
+
+  const client = await getRedisClient();
+  for (let attempt = 0; attempt < MAX_MODIFY_ATTEMPTS; attempt++) {
+    const current = await client.get(jobKey(id));
+    if (!current) {
+      return null;
+    }
+
+    const job = JSON.parse(current) as SplitJob;
+    const updated = change(job);
+    if (!updated) {
+      return job;
+    }
+
+    const written = await client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      jobKey(id),
+      current,
+      JSON.stringify(updated),
+      SPLIT_JOB_TTL,
+    );
+    if (written === 1) {
+      return updated;
+    }
+  }
+
+  throw new Error(`Split job ${id} changed concurrently, update not applied`);
+}
+
+/**
+ * Create a new queued job
+ */
+export async function createSplitJob(
+  total: number,
+  originalPrice: number,
+): Promise<SplitJob> {
+  const now = new Date().toISOString();
+  const job: SplitJob = {
+    id: randomUUID(),
+    status: "queued",
+    progress: { checked: 0, total, message: "Analyse eingeplant..." },
+    splitOptions: [],
+    originalPrice,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveSplitJob(job);
+  return job;
+}
+
+/**
+ * Update a job. Cancelled jobs stay cancelled, even when the cancel comes
+ * from another instance while this update is being written.
+ */
+export async function updateSplitJob(
+  id: string,
+  patch: Partial<Omit<SplitJob, "id" | "createdAt">>,
+): Promise<SplitJob | null> {
+  return modifySplitJob(id, (job) =>
+    job.status === "cancelled"
+      ? null
+      : { ...job, ...patch, updatedAt: new Date().toISOString() },
+  );
+}
+
+/**
+ * Mark a job as cancelled. The instance running it picks this up on its
+ * next progress update.
+ */
+export async function cancelSplitJob(id: string): Promise<SplitJob | null> {
+  return modifySplitJob(id, (job) =>
+    job.status !== "queued" && job.status !== "running"
+      ? null
+      : {
+          ...job,
+          status: "cancelled",
+          progress: { ...job.progress, message: "Analyse abgebrochen" },
+          updatedAt: new Date().toISOString(),
+        },
+  );
+}
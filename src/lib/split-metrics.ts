@@ -0,0 +1,67 @@
+/**
+ * How a split analysis was requested
+ */
+export type SplitAnalysisMode = "json" | "stream" | "job";
+
+/**
+ * How a split analysis ended
+ */
+export type SplitAnalysisOutcome = "completed" | "failed" | "cancelled";
+
+interface ModeStats {
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Upstream calls made by analyses that were cancelled */
+  cancelledUpstreamCalls: number;
+}
+
+const stats = new Map<SplitAnalysisMode, ModeStats>();
+
+function getModeStats(mode: SplitAnalysisMode): ModeStats {
+  let modeStats = stats.get(mode);
+  if (!modeStats) {
+    modeStats = {
+      running: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+      cancelledUpstreamCalls: 0,
+    };
+    stats.set(mode, modeStats);
+  }
+  return modeStats;
+}
+
+/**
+ * Count a started analysis. Returns a function to record its outcome
+ * (only the first call counts).
+ */
+export function trackSplitAnalysis(mode: SplitAnalysisMode) {
+  const modeStats = getModeStats(mode);
+  modeStats.running++;
+  let finished = false;
+
+  return (outcome: SplitAnalysisOutcome, upstreamCalls = 0) => {
+    if (finished) return;
+    finished = true;
+    modeStats.running--;
+    modeStats[outcome]++;
+    if (outcome === "cancelled") {
+      modeStats.cancelledUpstreamCalls += upstreamCalls;
+    }
+  };
+}
+
+/**
+ * Get analysis counters per mode (since process start)
+ */
+export function getSplitAnalysisStats() {
+  return Object.fromEntries(
+    (["json", "stream", "job"] as SplitAnalysisMode[]).map((mode) => [
+      mode,
+      { ...getModeStats(mode) },
+    ]),
+  );
+}
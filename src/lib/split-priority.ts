@@ -0,0 +1,82 @@
+import type { VendoJourney } from "../utils/schemas";
+import type { SplitPoint } from "../utils/types";
+
+/**
+ * Score weights of the split point heuristic. Coverage boundaries of the
+ * Deutschland-Ticket always come first, as a split there almost always pays.
+ */
+const COVERAGE_BOUNDARY_WEIGHT = 10;
+const HUB_WEIGHT = 3;
+const TRAIN_CHANGE_WEIGHT = 2;
+/** Full weight at the middle of the journey, zero at origin and destination */
+const MIDDLE_WEIGHT = 2;
+
+const HUB_PATTERN = /\bHbf\b|Hauptbahnhof/i;
+
+function journeyTimes(journey: VendoJourney) {
+  const firstLeg = journey.legs[0];
+  const lastLeg = journey.legs[journey.legs.length - 1];
+  return {
+    start: new Date(firstLeg.departure).getTime(),
+    end: new Date(lastLeg.arrival).getTime(),
+  };
+}
+
+/**
+ * Stations where the traveller changes trains on the original journey
+ */
+function transferStationIds(journey: VendoJourney): Set<string> {
+  const ids = new Set<string>();
+  const rideLegs = journey.legs.filter((leg) => !leg.walking);
+  rideLegs.forEach((leg, index) => {
+    if (index > 0 && leg.origin?.id) ids.add(leg.origin.id);
+    if (index < rideLegs.length - 1 && leg.destination?.id) {
+      ids.add(leg.destination.id);
+    }
+  });
+  return ids;
+}
+
+/**
+ * How promising a split at this point is: major hubs, train changes and the
+ * middle of the journey (by travel time) score higher. Small halts near the
+ * origin or destination rarely change the price.
+ */
+function scoreSplitPoint(
+  splitPoint: SplitPoint,
+  journey: VendoJourney,
+  transfers = transferStationIds(journey),
+): number {
+  let score = 0;
+
+  if (splitPoint.coverageBoundary) score += COVERAGE_BOUNDARY_WEIGHT;
+  if (HUB_PATTERN.test(splitPoint.station.name ?? "")) score += HUB_WEIGHT;
+  if (transfers.has(splitPoint.station.id)) score += TRAIN_CHANGE_WEIGHT;
+
+  const { start, end } = journeyTimes(journey);
+  const time = new Date(splitPoint.arrival || splitPoint.departure).getTime();
+  if (end > start && !Number.isNaN(time)) {
+    const position = Math.min(Math.max((time - start) / (end - start), 0), 1);
+    score += MIDDLE_WEIGHT * (1 - Math.abs(position - 0.5) * 2);
+  }
+
+  return score;
+}
+
+/**
+ * Split points ordered by score, best first. Equal scores keep journey order.
+ */
+export function rankSplitPoints(
+  journey: VendoJourney,
+  splitPoints: SplitPoint[],
+): SplitPoint[] {
+  const transfers = transferStationIds(journey);
+  return splitPoints
+    .map((splitPoint, index) => ({
+      splitPoint,
+      index,
+      score: scoreSplitPoint(splitPoint, journey, transfers),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ splitPoint }) => splitPoint);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, mock, test } from "bun:test";
+
+mock.module("./redis", () => ({
+  isRedisAvailable: async () => false,
+  getRedisClient: async () => {
+    throw new Error("Redis unavailable");
+  },
+}));
+
+const { getCorridorStats, recordSplitStationOutcomes, splitCorridor } =
+  await import("./split-station-stats");
+
+const flexTariff = {
+  bahnCard: null,
+  travelClass: 2,
+  deutschlandTicket: false,
+  crossTrain: false,
+} as const;
+
+describe("split station stats", () => {
+  test("keeps stats apart per tariff", async () => {
+    const withoutBahnCard = splitCorridor("8000105", "8000261", flexTariff);
+    const withBahnCard = splitCorridor("8000105", "8000261", {
+      ...flexTariff,
+      bahnCard: 50,
+    });
+    expect(withBahnCard).not.toBe(withoutBahnCard);
+
+    await recordSplitStationOutcomes(withoutBahnCard, [
+      { station: { id: "8000284", name: "Nürnberg Hbf" }, savings: 12.5 },
+    ]);
+    await recordSplitStationOutcomes(withBahnCard, [
+      { station: { id: "8000284", name: "Nürnberg Hbf" }, savings: null },
+    ]);
+
+    expect((await getCorridorStats(withoutBahnCard)).get("8000284")).toEqual(
+      expect.objectContaining({ tries: 1, hits: 1, averageSavings: 12.5 }),
+    );
+    expect((await getCorridorStats(withBahnCard)).get("8000284")).toEqual(
+      expect.objectContaining({ tries: 1, hits: 0 }),
+    );
+  });
+
+  test("keys differ by class, Deutschland-Ticket and train change", () => {
+    const keys = new Set([
+      splitCorridor("a", "b", flexTariff),
+      splitCorridor("a", "b", { ...flexTariff, travelClass: 1 }),
+      splitCorridor("a", "b", { ...flexTariff, deutschlandTicket: true }),
+      splitCorridor("a", "b", { ...flexTariff, crossTrain: true }),
+      splitCorridor("b", "a", flexTariff),
+    ]);
+    expect(keys.size).toBe(5);
+  });
+});
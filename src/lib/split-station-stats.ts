@@ -0,0 +1,222 @@
+import { getRedisClient, isRedisAvailable } from "./redis";
+
+/**
+ * Stats TTL in seconds, refreshed on every recorded analysis
+ */
+const SPLIT_STATS_TTL = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Pseudo corridor holding the totals over all corridors
+ */
+const ALL_CORRIDORS = "all";
+
+/**
+ * Outcome of checking one split station in an analysis
+ */
+export interface SplitStationOutcome {
+  station: { id: string; name?: string };
+  /** Savings of the best option found at this station, null without one */
+  savings: number | null;
+}
+
+/**
+ * Learned statistics of one split station (per corridor or overall)
+ */
+export interface SplitStationStats {
+  stationId: string;
+  name?: string;
+  tries: number;
+  hits: number;
+  hitRate: number;
+  /** Average savings of the analyses where a split here saved money */
+  averageSavings: number;
+}
+
+interface Counters {
+  tries: number;
+  hits: number;
+  savings: number;
+}
+
+/**
+ * Fallback store when Redis is unavailable (single instance only)
+ */
+const memoryStats = new Map<string, Map<string, Counters>>();
+const memoryNames = new Map<string, string>();
+
+/**
+ * Tariff an analysis was priced with. Whether a split saves money depends on
+ * it (a station that pays off with BahnCard 50 may not without), so stats are
+ * kept per tariff.
+ */
+export interface SplitTariff {
+  /** BahnCard discount in percent, null without BahnCard */
+  bahnCard: number | null;
+  travelClass: 1 | 2;
+  deutschlandTicket: boolean;
+  crossTrain: boolean;
+}
+
+/**
+ * Corridor of a journey: origin and destination station (direction matters)
+ * and the tariff of the analysis
+ */
+export function splitCorridor(
+  originId: string,
+  destinationId: string,
+  tariff: SplitTariff,
+) {
+  const tariffKey = [
+    `bc${tariff.bahnCard ?? 0}`,
+    `c${tariff.travelClass}`,
+    tariff.deutschlandTicket ? "dt" : "nodt",
+    tariff.crossTrain ? "xt" : "st",
+  ].join(":");
+  return `${originId}-${destinationId}:${tariffKey}`;
+}
+
+function statsKey(corridor: string) {
+  return `betterbahn:split-stats:${corridor}`;
+}
+
+const NAMES_KEY = "betterbahn:split-stats-names";
+
+function toStats(
+  stationId: string,
+  { tries, hits, savings }: Counters,
+  name?: string,
+): SplitStationStats {
+  return {
+    stationId,
+    name,
+    tries,
+    hits,
+    hitRate: tries > 0 ? Math.round((hits / tries) * 1000) / 1000 : 0,
+    averageSavings: hits > 0 ? Math.round((savings / hits) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * Parse a Redis hash with `<stationId>|tries|hits|savings` fields
+ */
+function parseCounters(hash: Record<string, string>) {
+  const counters = new Map<string, Counters>();
+  for (const [field, value] of Object.entries(hash)) {
+    const separator = field.lastIndexOf("|");
+    const stationId = field.slice(0, separator);
+    const counter = field.slice(separator + 1) as keyof Counters;
+    const entry = counters.get(stationId) ?? { tries: 0, hits: 0, savings: 0 };
+    entry[counter] = Number.parseFloat(value);
+    counters.set(stationId, entry);
+  }
+  return counters;
+}
+
+/**
+ * Add the outcomes of one analysis to the corridor and overall statistics
+ */
+export async function recordSplitStationOutcomes(
+  corridor: string,
+  outcomes: SplitStationOutcome[],
+): Promise<void> {
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  if (await isRedisAvailable()) {
+    const client = await getRedisClient();
+    const pipeline = client.pipeline();
+    for (const key of [statsKey(corridor), statsKey(ALL_CORRIDORS)]) {
+      for (const { station, savings } of outcomes) {
+        pipeline.hincrby(key, `${station.id}|tries`, 1);
+        if (savings !== null && savings > 0) {
+          pipeline.hincrby(key, `${station.id}|hits`, 1);
+          pipeline.hincrbyfloat(key, `${station.id}|savings`, savings);
+        }
+      }
+      pipeline.expire(key, SPLIT_STATS_TTL);
+    }
+    for (const { station } of outcomes) {
+      if (station.name) pipeline.hset(NAMES_KEY, station.id, station.name);
+    }
+    pipeline.expire(NAMES_KEY, SPLIT_STATS_TTL);
+    await pipeline.exec();
+    return;
+  }
+
+  for (const key of [corridor, ALL_CORRIDORS]) {
+    const counters = memoryStats.get(key) ?? new Map<string, Counters>();
+    memoryStats.set(key, counters);
+    for (const { station, savings } of outcomes) {
+      const entry = counters.get(station.id) ?? {
+        tries: 0,
+        hits: 0,
+        savings: 0,
+      };
+      entry.tries++;
+      if (savings !== null && savings > 0) {
+        entry.hits++;
+        entry.savings += savings;
+      }
+      counters.set(station.id, entry);
+    }
+  }
+  for (const { station } of outcomes) {
+    if (station.name) memoryNames.set(station.id, station.name);
+  }
+}
+
+async function readCounters(corridor: string) {
+  if (await isRedisAvailable()) {
+    const client = await getRedisClient();
+    return parseCounters(await client.hgetall(statsKey(corridor)));
+  }
+  return memoryStats.get(corridor) ?? new Map<string, Counters>();
+}
+
+/**
+ * Learned statistics per station for one corridor
+ */
+export async function getCorridorStats(
+  corridor: string,
+): Promise<Map<string, SplitStationStats>> {
+  const counters = await readCounters(corridor);
+  return new Map(
+    [...counters].map(([stationId, entry]) => [
+      stationId,
+      toStats(stationId, entry),
+    ]),
+  );
+}
+
+/**
+ * Best split stations over all corridors, by hits and average savings
+ */
+export async function getTopSplitStations(
+  limit = 20,
+): Promise<SplitStationStats[]> {
+  const counters = await readCounters(ALL_CORRIDORS);
+  const top = [...counters]
+    .map(([stationId, entry]) => toStats(stationId, entry))
+    .filter((stats) => stats.hits > 0)
+    .sort(
+      (a, b) =>
+        b.hits * b.averageSavings - a.hits * a.averageSavings ||
+        b.hitRate - a.hitRate,
+    )
+    .slice(0, limit);
+
+  if (await isRedisAvailable()) {
+    const client = await getRedisClient();
+    const names =
+      top.length > 0
+        ? await client.hmget(NAMES_KEY, ...top.map((s) => s.stationId))
+        : [];
+    return top.map((stats, i) => ({ ...stats, name: names[i] ?? undefined }));
+  }
+
+  return top.map((stats) => ({
+    ...stats,
+    name: memoryNames.get(stats.stationId),
+  }));
+}
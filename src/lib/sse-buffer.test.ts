@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createEventBuffer,
+  createSseResponse,
+  parseLastEventId,
+} from "./sse-buffer";
+
+/** Event names and IDs of an SSE body, in order */
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter((block) => block.includes("event: "))
+    .map((block) => ({
+      id: block.match(/^id: (.+)$/m)?.[1],
+      event: block.match(/^event: (.+)$/m)?.[1],
+      data: JSON.parse(block.match(/^data: (.+)$/m)?.[1] ?? "null"),
+    }));
+}
+
+describe("SSE resume", () => {
+  test("parses Last-Event-ID headers", () => {
+    expect(parseLastEventId("abc:12")).toEqual({ streamId: "abc", seq: 12 });
+    expect(parseLastEventId("abc")).toBeNull();
+    expect(parseLastEventId("abc:x")).toBeNull();
+    expect(parseLastEventId(undefined)).toBeNull();
+  });
+
+  test("replays only the events after Last-Event-ID", async () => {
+    const buffer = createEventBuffer();
+    buffer.push("progress", { checked: 1 });
+    buffer.push("option", { station: "A" });
+    buffer.push("complete", { done: true });
+    buffer.close();
+
+    const { seq } = parseLastEventId(`${buffer.id}:1`) ?? { seq: 0 };
+    const events = parseEvents(await createSseResponse(buffer, seq).text());
+
+    expect(events.map((event) => event.id)).toEqual([
+      `${buffer.id}:2`,
+      `${buffer.id}:3`,
+    ]);
+    expect(events.map((event) => event.event)).toEqual(["option", "complete"]);
+  });
+
+  test("follows live events after the replay", async () => {
+    const buffer = createEventBuffer();
+    buffer.push("progress", { checked: 1 });
+
+    const response = createSseResponse(buffer, 1);
+    buffer.push("progress", { checked: 2 });
+    buffer.close();
+
+    const events = parseEvents(await response.text());
+    expect(events).toEqual([
+      { id: `${buffer.id}:2`, event: "progress", data: { checked: 2 } },
+    ]);
+  });
+
+  test("sends a reset before replaying when missed events were dropped", async () => {
+    const buffer = createEventBuffer();
+    for (let checked = 1; checked <= 1005; checked++) {
+      buffer.push("progress", { checked });
+    }
+    buffer.close();
+
+    const events = parseEvents(await createSseResponse(buffer, 2).text());
+
+    expect(events[0]).toMatchObject({
+      id: undefined,
+      event: "reset",
+      data: { reason: "events-dropped", firstAvailableSeq: 6 },
+    });
+    expect(events).toHaveLength(1001);
+    expect(events[1].id).toBe(`${buffer.id}:6`);
+  });
+
+  test("ends at once when the request is already aborted", async () => {
+    const buffer = createEventBuffer();
+    buffer.push("progress", { checked: 1 });
+
+    const response = createSseResponse(buffer, 0, AbortSignal.abort());
+
+    expect(await response.text()).toBe("");
+    buffer.close();
+  });
+});
@@ -0,0 +1,241 @@
+import { randomUUID } from "node:crypto";
+
+/**
+ * Event types sent on split analysis streams
+ */
+export type SseEventType =
+  | "progress"
+  | "option"
+  | "complete"
+  | "error"
+  | "reset";
+
+/**
+ * A buffered server-sent event
+ */
+export interface BufferedEvent {
+  /** Monotonically increasing sequence number within the stream */
+  seq: number;
+  event: SseEventType;
+  data: unknown;
+}
+
+/**
+ * Events of one analysis, kept for a short time so reconnecting clients can
+ * resume with Last-Event-ID. Buffers live in memory of the instance that
+ * runs the analysis.
+ */
+export interface EventBuffer {
+  id: string;
+  events: BufferedEvent[];
+  done: boolean;
+  push(event: SseEventType, data: unknown): void;
+  close(): void;
+  subscribe(listener: (event: BufferedEvent | null) => void): () => void;
+}
+
+/** How long a finished stream can still be resumed */
+const BUFFER_TTL_MS = 5 * 60 * 1000; // 5 minutes
+/** Upper bound of events kept per stream */
+const MAX_BUFFERED_EVENTS = 1000;
+/**
+ * Interval of keep-alive comments so proxies don't drop idle streams; below
+ * Bun.serve's default idle timeout of 10 seconds
+ */
+const HEARTBEAT_INTERVAL_MS = 8000;
+/** Client reconnect delay hint */
+const RETRY_MS = 3000;
+/** How long a stream without clients keeps running before it is abandoned */
+const RESUME_GRACE_MS = 30_000;
+
+const buffers = new Map<string, EventBuffer>();
+
+/**
+ * Create and register a new event buffer. `onAbandoned` is called when the
+ * last client disconnected and none reconnected within the grace period.
+ */
+export function createEventBuffer(onAbandoned?: () => void): EventBuffer {
+  const listeners = new Set<(event: BufferedEvent | null) => void>();
+  let seq = 0;
+  let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearGraceTimer = () => {
+    if (graceTimer) {
+      clearTimeout(graceTimer);
+      graceTimer = null;
+    }
+  };
+
+  const buffer: EventBuffer = {
+    id: randomUUID(),
+    events: [],
+    done: false,
+    push(event, data) {
+      if (buffer.done) return;
+      const entry: BufferedEvent = { seq: ++seq, event, data };
+      buffer.events.push(entry);
+      if (buffer.events.length > MAX_BUFFERED_EVENTS) {
+        buffer.events.shift();
+      }
+      for (const listener of listeners) listener(entry);
+    },
+    close() {
+      if (buffer.done) return;
+      buffer.done = true;
+      clearGraceTimer();
+      for (const listener of listeners) listener(null);
+      listeners.clear();
+      setTimeout(() => buffers.delete(buffer.id), BUFFER_TTL_MS);
+    },
+    subscribe(listener) {
+      clearGraceTimer();
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && !buffer.done && onAbandoned) {
+          clearGraceTimer();
+          graceTimer = setTimeout(onAbandoned, RESUME_GRACE_MS);
+        }
+      };
+    },
+  };
+
+  buffers.set(buffer.id, buffer);
+  return buffer;
+}
+
+export function getEventBuffer(id: string): EventBuffer | undefined {
+  return buffers.get(id);
+}
+
+/**
+ * Parse a Last-Event-ID header of the form `<streamId>:<seq>`
+ */
+export function parseLastEventId(
+  value: string | null | undefined,
+): { streamId: string; seq: number } | null {
+  if (!value) return null;
+  const separator = value.lastIndexOf(":");
+  if (separator === -1) return null;
+  const seq = Number.parseInt(value.slice(separator + 1), 10);
+  if (Number.isNaN(seq)) return null;
+  return { streamId: value.slice(0, separator), seq };
+}
+
+function formatEvent(streamId: string, { seq, event, data }: BufferedEvent) {
+  return `id: ${streamId}:${seq}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Whether a client resuming after `afterSeq` missed events that are no longer
+ * buffered (dropped because the stream exceeded MAX_BUFFERED_EVENTS)
+ */
+function missedDroppedEvents(buffer: EventBuffer, afterSeq: number) {
+  const oldest = buffer.events[0];
+  return afterSeq > 0 && oldest !== undefined && oldest.seq > afterSeq + 1;
+}
+
+/**
+ * Create an SSE response for a buffer: replays events after `afterSeq`,
+ * then follows live events until the buffer is closed or the client
+ * disconnects (stream cancelled or request `signal` aborted). If events after
+ * `afterSeq` were already dropped, a `reset` event comes first and all
+ * buffered events are replayed, so the client can discard its partial state
+ * instead of silently missing events.
+ */
+export function createSseResponse(
+  buffer: EventBuffer,
+  afterSeq = 0,
+  signal?: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+        }
+      };
+
+      // Client already gone, nothing to send or follow
+      if (signal?.aborted) {
+        controller.close();
+        return;
+      }
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      let lastSeq = afterSeq;
+      if (missedDroppedEvents(buffer, afterSeq)) {
+        send(
+          `event: reset\ndata: ${JSON.stringify({
+            reason: "events-dropped",
+            message:
+              "Verpasste Ereignisse sind nicht mehr verfügbar, der Stream wird von vorn gesendet",
+            firstAvailableSeq: buffer.events[0].seq,
+          })}\n\n`,
+        );
+        lastSeq = 0;
+      }
+      for (const entry of buffer.events) {
+        if (entry.seq > lastSeq) {
+          send(formatEvent(buffer.id, entry));
+          lastSeq = entry.seq;
+        }
+      }
+
+      if (buffer.done) {
+        controller.close();
+        return;
+      }
+
+      const heartbeat = setInterval(
+        () => send(`: heartbeat ${Date.now()}\n\n`),
+        HEARTBEAT_INTERVAL_MS,
+      );
+
+      const unsubscribe = buffer.subscribe((entry) => {
+        if (entry === null) {
+          cleanup();
+          controller.close();
+          return;
+        }
+        if (entry.seq > lastSeq) {
+          send(formatEvent(buffer.id, entry));
+          lastSeq = entry.seq;
+        }
+      });
+
+      const onAbort = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        signal?.removeEventListener("abort", onAbort);
+      };
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,122 @@
+import type { StationIndex } from "./station-index";
+
+/** Cell size of the spatial grid in degrees (about 11 km north-south) */
+const CELL_SIZE = 0.1;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+
+export interface NearbyStation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  weight: number;
+  longDistance: boolean;
+  /** Distance from the requested position in meters */
+  distance: number;
+}
+
+export interface NearbyOptions {
+  /** Search radius in meters */
+  radius: number;
+  limit: number;
+  /** Only stations served by ICE/IC/EC trains */
+  longDistanceOnly?: boolean;
+}
+
+/** Grid cell key -> positions in StationIndex.stations */
+type StationGrid = Map<string, number[]>;
+
+const grids = new WeakMap<StationIndex, StationGrid>();
+
+function cellKey(latitudeCell: number, longitudeCell: number) {
+  return `${latitudeCell}:${longitudeCell}`;
+}
+
+function toCell(degrees: number) {
+  return Math.floor(degrees / CELL_SIZE);
+}
+
+function getGrid(index: StationIndex): StationGrid {
+  const cached = grids.get(index);
+  if (cached) return cached;
+
+  const grid: StationGrid = new Map();
+  index.stations.forEach((station, position) => {
+    const key = cellKey(toCell(station.latitude), toCell(station.longitude));
+    const cell = grid.get(key);
+    if (cell) cell.push(position);
+    else grid.set(key, [position]);
+  });
+
+  grids.set(index, grid);
+  return grid;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in meters (haversine)
+ */
+export function distanceMeters(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+): number {
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Stations within `radius` meters of a position, nearest first. Only the grid
+ * cells overlapping the radius are checked, so no full scan of the dataset.
+ */
+export function findNearbyStations(
+  index: StationIndex,
+  latitude: number,
+  longitude: number,
+  { radius, limit, longDistanceOnly = false }: NearbyOptions,
+): NearbyStation[] {
+  const grid = getGrid(index);
+
+  // Bounding box of the radius; longitude degrees shrink towards the poles
+  const latitudeDelta = radius / METERS_PER_DEGREE_LATITUDE;
+  const longitudeDelta =
+    radius /
+    (METERS_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos(toRadians(latitude)), 0.01));
+
+  const nearby: NearbyStation[] = [];
+  for (
+    let latitudeCell = toCell(latitude - latitudeDelta);
+    latitudeCell <= toCell(latitude + latitudeDelta);
+    latitudeCell++
+  ) {
+    for (
+      let longitudeCell = toCell(longitude - longitudeDelta);
+      longitudeCell <= toCell(longitude + longitudeDelta);
+      longitudeCell++
+    ) {
+      const cell = grid.get(cellKey(latitudeCell, longitudeCell)) ?? [];
+      for (const position of cell) {
+        const station = index.stations[position];
+        if (longDistanceOnly && !station.longDistance) continue;
+
+        const distance = distanceMeters({ latitude, longitude }, station);
+        if (distance > radius) continue;
+
+        nearby.push({ ...station, distance: Math.round(distance) });
+      }
+    }
+  }
+
+  return nearby
+    .sort((a, b) => a.distance - b.distance || b.weight - a.weight)
+    .slice(0, limit);
+}
@@ -0,0 +1,66 @@
+import { readFullStations } from "db-hafas-stations";
+
+/**
+ * Station from the offline db-hafas-stations dataset
+ */
+export interface IndexedStation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Importance of the station (traffic), higher is bigger */
+  weight: number;
+  /** Served by ICE/IC/EC trains */
+  longDistance: boolean;
+}
+
+export interface StationIndex {
+  stations: IndexedStation[];
+  byId: Map<string, IndexedStation>;
+}
+
+let indexPromise: Promise<StationIndex> | null = null;
+
+async function buildStationIndex(): Promise<StationIndex> {
+  const startTime = Date.now();
+  const stations: IndexedStation[] = [];
+  const byId = new Map<string, IndexedStation>();
+
+  for await (const station of readFullStations()) {
+    if (!station.location || byId.has(station.id)) continue;
+
+    const indexed: IndexedStation = {
+      id: station.id,
+      name: station.name,
+      latitude: station.location.latitude,
+      longitude: station.location.longitude,
+      weight: station.weight ?? 0,
+      longDistance: Boolean(
+        station.products?.nationalExpress || station.products?.national,
+      ),
+    };
+    stations.push(indexed);
+    byId.set(indexed.id, indexed);
+  }
+
+  console.log(
+    `Station index loaded: ${stations.length} stations in ${Date.now() - startTime}ms`,
+  );
+
+  return { stations, byId };
+}
+
+/**
+ * Load the offline station index on first use. The dataset is read once per
+ * process; concurrent callers share the same load.
+ */
+export function getStationIndex(): Promise<StationIndex> {
+  if (!indexPromise) {
+    indexPromise = buildStationIndex().catch((error) => {
+      // Allow a retry on the next call
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import type { IndexedStation, StationIndex } from "./station-index";
+import { resolveStationName, searchStations } from "./station-search";
+
+const station = (id: string, name: string, weight: number): IndexedStation => ({
+  id,
+  name,
+  latitude: 0,
+  longitude: 0,
+  weight,
+  longDistance: true,
+});
+
+const stations = [
+  station("8002549", "Hamburg Hbf", 5000),
+  station("8098549", "Hamburg Hbf (S-Bahn)", 800),
+  station("8000261", "München Hbf", 4000),
+  station("8000105", "Frankfurt(Main)Hbf", 4500),
+  station("8000080", "Dortmund Hbf", 2500),
+  station("8000096", "Stuttgart Hbf", 3000),
+];
+const index: StationIndex = {
+  stations,
+  byId: new Map(stations.map((entry) => [entry.id, entry])),
+};
+
+const names = (query: string) =>
+  searchStations(index, query, 10).map((result) => result.name);
+
+describe("station search", () => {
+  test("matches words exactly, as prefix and with spelled-out umlauts", () => {
+    expect(names("Muenchen Hbf")).toEqual(["München Hbf"]);
+    expect(names("Dort")).toEqual(["Dortmund Hbf"]);
+    expect(names("Ffm")).toEqual(["Frankfurt(Main)Hbf"]);
+  });
+
+  test("finds typo candidates through trigrams", () => {
+    expect(names("Dortmnud")).toEqual(["Dortmund Hbf"]);
+    expect(names("Stuttgrat Hbf")).toEqual(["Stuttgart Hbf"]);
+    expect(names("Stutgart")).toEqual(["Stuttgart Hbf"]);
+  });
+
+  test("ranks exact matches before prefixes and typos", () => {
+    expect(names("Hamburg")).toEqual(["Hamburg Hbf", "Hamburg Hbf (S-Bahn)"]);
+    expect(names("Hamburg Hbf S")[0]).toBe("Hamburg Hbf (S-Bahn)");
+  });
+
+  test("resolves a misspelled name without extra words", () => {
+    expect(resolveStationName(index, "Hambrug Hbf")).toMatchObject({
+      status: "resolved",
+      station: { id: "8002549" },
+    });
+    expect(resolveStationName(index, "Kiel")).toEqual({ status: "not-found" });
+  });
+});
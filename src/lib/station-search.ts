@@ -0,0 +1,387 @@
+import type { IndexedStation, StationIndex } from "./station-index";
+
+/**
+ * Abbreviations expanded (or unified) per token, on station names and queries
+ */
+const ABBREVIATIONS: Record<string, string[]> = {
+  ffm: ["frankfurt", "main"],
+  hauptbahnhof: ["hbf"],
+  bahnhof: ["bf"],
+  bhf: ["bf"],
+};
+
+/**
+ * Expanded on station names only: in a query, "m" is usually the start of a
+ * word still being typed ("M" -> "München")
+ */
+const NAME_ABBREVIATIONS: Record<string, string[]> = {
+  ...ABBREVIATIONS,
+  // Frankfurt(M), Frankfurt a.M.
+  m: ["main"],
+};
+
+/** Match quality of a single query token */
+const EXACT_MATCH = 3;
+const PREFIX_MATCH = 2;
+const FUZZY_MATCH = 1;
+
+/**
+ * A name resolves to its best match when that station's weight is at least
+ * this many times the weight of the runner-up
+ */
+const DOMINANT_WEIGHT_FACTOR = 10;
+
+/** Candidates listed for an ambiguous name */
+const MAX_CANDIDATES = 5;
+
+/** Query tokens shorter than this are only matched exactly or as prefix */
+const MIN_FUZZY_LENGTH = 4;
+
+/** Trigrams one edit can change at most (swapping two letters) */
+const TRIGRAMS_PER_EDIT = 4;
+
+export interface StationSearchResult {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  weight: number;
+}
+
+interface SearchIndex {
+  /** Normalized token -> positions in StationIndex.stations */
+  postings: Map<string, number[]>;
+  /** All tokens, sorted, so exact and prefix matches are a binary search */
+  tokens: string[];
+  /** Trigram -> positions in `tokens`; candidates for typo matching */
+  trigrams: Map<string, number[]>;
+}
+
+const searchIndexes = new WeakMap<StationIndex, SearchIndex>();
+
+/**
+ * Lower-case tokens of a station name or query. Umlauts are spelled out
+ * (ü -> ue), so "München" and "Muenchen" give the same token, and known
+ * abbreviations are expanded ("Ffm" -> "frankfurt main").
+ */
+export function normalizeStationName(
+  value: string,
+  abbreviations = ABBREVIATIONS,
+): string[] {
+  const spelledOut = value
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+  return spelledOut
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap((token) => abbreviations[token] ?? [token]);
+}
+
+/**
+ * Distinct trigrams of a token; the first one marks the word start ("^ha"),
+ * none at the end, so a partially typed word shares the trigrams of its start
+ */
+function trigramsOf(token: string): string[] {
+  const padded = `^${token}`;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return [...trigrams];
+}
+
+function getSearchIndex(index: StationIndex): SearchIndex {
+  const cached = searchIndexes.get(index);
+  if (cached) return cached;
+
+  const startTime = Date.now();
+  const postings = new Map<string, number[]>();
+  index.stations.forEach((station, position) => {
+    const tokens = normalizeStationName(station.name, NAME_ABBREVIATIONS);
+    for (const token of new Set(tokens)) {
+      const list = postings.get(token);
+      if (list) list.push(position);
+      else postings.set(token, [position]);
+    }
+  });
+
+  const tokens = [...postings.keys()].sort();
+  const trigrams = new Map<string, number[]>();
+  tokens.forEach((token, tokenPosition) => {
+    for (const trigram of trigramsOf(token)) {
+      const list = trigrams.get(trigram);
+      if (list) list.push(tokenPosition);
+      else trigrams.set(trigram, [tokenPosition]);
+    }
+  });
+
+  const searchIndex = { postings, tokens, trigrams };
+  searchIndexes.set(index, searchIndex);
+  console.log(
+    `Station search index built: ${tokens.length} tokens in ${Date.now() - startTime}ms`,
+  );
+  return searchIndex;
+}
+
+/**
+ * Build the search index ahead of the first search (at startup)
+ */
+export function prepareStationSearch(index: StationIndex): void {
+  getSearchIndex(index);
+}
+
+/**
+ * Edit distance where swapping two neighbouring letters counts as one edit
+ * ("Hambrug"), giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos allowed in a query token: one for short words, two for long ones */
+function maxTypos(queryToken: string) {
+  return queryToken.length >= 8 ? 2 : 1;
+}
+
+/**
+ * Whether a token is within the allowed typos of the query token. Comparing
+ * against the token prefix as well keeps partially typed words matching.
+ */
+function isTypoMatch(queryToken: string, token: string): boolean {
+  const maxDistance = maxTypos(queryToken);
+  return (
+    Math.min(
+      editDistance(queryToken, token, maxDistance),
+      editDistance(queryToken, token.slice(0, queryToken.length), maxDistance),
+    ) <= maxDistance
+  );
+}
+
+/** Position of the first token not sorting before `value` */
+function lowerBound(tokens: string[], value: string): number {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (tokens[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Tokens that share enough trigrams with the query token to be within its
+ * allowed typos. At least one shared trigram is required, so a short word
+ * whose typos leave no trigram intact is not found.
+ */
+function typoCandidates(
+  queryToken: string,
+  { tokens, trigrams }: SearchIndex,
+): string[] {
+  const queryTrigrams = trigramsOf(queryToken);
+  const maxDistance = maxTypos(queryToken);
+  const required = Math.max(
+    1,
+    queryTrigrams.length - TRIGRAMS_PER_EDIT * maxDistance,
+  );
+
+  const shared = new Map<number, number>();
+  for (const trigram of queryTrigrams) {
+    for (const tokenPosition of trigrams.get(trigram) ?? []) {
+      shared.set(tokenPosition, (shared.get(tokenPosition) ?? 0) + 1);
+    }
+  }
+
+  const candidates: string[] = [];
+  for (const [tokenPosition, count] of shared) {
+    const token = tokens[tokenPosition];
+    // Neither the token nor its prefix can be close enough when it is shorter
+    if (count >= required && token.length >= queryToken.length - maxDistance) {
+      candidates.push(token);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Best match quality per station for one query token. Exact and prefix
+ * matches come from the sorted tokens, typo matches only check the trigram
+ * candidates, so no query scans the whole dataset.
+ */
+function matchToken(
+  queryToken: string,
+  searchIndex: SearchIndex,
+): Map<number, number> {
+  const { postings, tokens } = searchIndex;
+  const scores = new Map<number, number>();
+  const add = (token: string, quality: number) => {
+    for (const position of postings.get(token) ?? []) {
+      if ((scores.get(position) ?? 0) < quality) scores.set(position, quality);
+    }
+  };
+
+  for (
+    let i = lowerBound(tokens, queryToken);
+    i < tokens.length && tokens[i].startsWith(queryToken);
+    i++
+  ) {
+    add(tokens[i], tokens[i] === queryToken ? EXACT_MATCH : PREFIX_MATCH);
+  }
+
+  if (queryToken.length < MIN_FUZZY_LENGTH) return scores;
+
+  for (const token of typoCandidates(queryToken, searchIndex)) {
+    if (!token.startsWith(queryToken) && isTypoMatch(queryToken, token)) {
+      add(token, FUZZY_MATCH);
+    }
+  }
+  return scores;
+}
+
+function toResult(station: IndexedStation): StationSearchResult {
+  return {
+    id: station.id,
+    name: station.name,
+    latitude: station.latitude,
+    longitude: station.longitude,
+    weight: station.weight,
+  };
+}
+
+interface RankedStation {
+  station: IndexedStation;
+  score: number;
+}
+
+/**
+ * Stations matching every query token, best match first
+ */
+function rankStations(
+  index: StationIndex,
+  queryTokens: string[],
+  limit: number,
+): RankedStation[] {
+  if (queryTokens.length === 0) return [];
+
+  const searchIndex = getSearchIndex(index);
+  let totals: Map<number, number> | null = null;
+
+  for (const queryToken of queryTokens) {
+    const scores = matchToken(queryToken, searchIndex);
+    const next = new Map<number, number>();
+    for (const [position, quality] of scores) {
+      if (totals && !totals.has(position)) continue;
+      next.set(position, (totals?.get(position) ?? 0) + quality);
+    }
+    totals = next;
+    if (totals.size === 0) return [];
+  }
+
+  return [...(totals ?? [])]
+    .map(([position, score]) => ({
+      station: index.stations[position],
+      score,
+    }))
+    .sort((a, b) => b.score - a.score || b.station.weight - a.station.weight)
+    .slice(0, limit);
+}
+
+/**
+ * Fuzzy station search on the offline index. Every query token has to match a
+ * name token (exactly, as prefix or with a typo); results are ordered by match
+ * quality, then by station weight.
+ */
+export function searchStations(
+  index: StationIndex,
+  query: string,
+  limit = 10,
+): StationSearchResult[] {
+  const queryTokens = [...new Set(normalizeStationName(query))];
+  return rankStations(index, queryTokens, limit).map(({ station }) =>
+    toResult(station),
+  );
+}
+
+export type StationResolution =
+  | { status: "resolved"; station: StationSearchResult }
+  | { status: "ambiguous"; candidates: StationSearchResult[] }
+  | { status: "not-found" };
+
+/**
+ * Resolve a free-text station name to a single station. A name is taken as
+ * unambiguous when it equals a station name (after normalization), when one
+ * station matches best without extra words ("Hambrug Hbf" -> Hamburg Hbf, not
+ * Hamburg Hbf (S-Bahn)), or when the best match clearly outweighs the next.
+ */
+export function resolveStationName(
+  index: StationIndex,
+  name: string,
+): StationResolution {
+  const queryTokens = normalizeStationName(name);
+  const ranked = rankStations(index, [...new Set(queryTokens)], 50);
+  if (ranked.length === 0) return { status: "not-found" };
+
+  const nameTokens = (station: IndexedStation) =>
+    normalizeStationName(station.name, NAME_ABBREVIATIONS);
+
+  const normalizedName = queryTokens.join(" ");
+  const exact = ranked.find(
+    ({ station }) => nameTokens(station).join(" ") === normalizedName,
+  );
+  if (exact) return { status: "resolved", station: toResult(exact.station) };
+
+  const [best, next] = ranked;
+  if (
+    !next ||
+    next.score < best.score ||
+    best.station.weight >= next.station.weight * DOMINANT_WEIGHT_FACTOR
+  ) {
+    return { status: "resolved", station: toResult(best.station) };
+  }
+
+  const withoutExtraWords = ranked.filter(
+    ({ station, score }) =>
+      score === best.score && nameTokens(station).length === queryTokens.length,
+  );
+  if (withoutExtraWords.length === 1) {
+    return {
+      status: "resolved",
+      station: toResult(withoutExtraWords[0].station),
+    };
+  }
+
+  return {
+    status: "ambiguous",
+    candidates: ranked
+      .slice(0, MAX_CANDIDATES)
+      .map(({ station }) => toResult(station)),
+  };
+}
@@ -0,0 +1,52 @@
+import {
+  createClient,
+  type DeparturesOptions,
+  type LocationsOptions,
+  type SearchJourneysOptions,
+  type TripOptions,
+} from "db-vendo-client";
+import { profile as dbProfile } from "db-vendo-client/p/db/index";
+
+/**
+ * Upstream transport API used by the routes. Responses are returned
+ * unvalidated and parsed with the Zod schemas at the call site.
+ */
+export interface TransportClient {
+  journeys(
+    from: string,
+    to: string,
+    options: SearchJourneysOptions,
+  ): Promise<unknown>;
+  trip(id: string, options?: TripOptions): Promise<unknown>;
+  departures(stationId: string, options?: DeparturesOptions): Promise<unknown>;
+  locations(query: string, options?: LocationsOptions): Promise<unknown>;
+}
+
+/**
+ * Configuration for the db-vendo-client implementation
+ */
+export interface DbVendoTransportConfig {
+  /** db-vendo-client profile (default: db) */
+  profile?: unknown;
+  /** User agent that tells the API operators how to contact us */
+  userAgent?: string;
+}
+
+const DEFAULT_USER_AGENT = "mail@lukasweihrauch.de";
+
+/**
+ * Create a TransportClient backed by db-vendo-client
+ */
+export function createDbVendoTransportClient({
+  profile = dbProfile,
+  userAgent = process.env.DB_USER_AGENT || DEFAULT_USER_AGENT,
+}: DbVendoTransportConfig = {}): TransportClient {
+  const client = createClient(profile, userAgent);
+
+  return {
+    journeys: (from, to, options) => client.journeys(from, to, options),
+    trip: (id, options) => client.trip(id, options),
+    departures: (stationId, options) => client.departures(stationId, options),
+    locations: (query, options) => client.locations(query, options),
+  };
+}
@@ -0,0 +1,175 @@
+import { data as loyaltyCards } from "db-vendo-client/format/loyalty-cards";
+import type { Traveller, TravellerPrice, VendoJourney } from "../utils/schemas";
+
+/**
+ * Travellers with identical age, BahnCard and class share one upstream query
+ */
+export interface TravellerGroup {
+  traveller: Traveller;
+  /** Positions of these travellers in the request */
+  indices: number[];
+}
+
+/**
+ * Search options that differ per traveller
+ */
+export interface TravellerSearchOptions {
+  firstClass: boolean;
+  loyaltyCard?: {
+    type: string;
+    discount: number;
+    class: number;
+  };
+  age?: number;
+}
+
+export function groupTravellers(travellers: Traveller[]): TravellerGroup[] {
+  const groups = new Map<string, TravellerGroup>();
+
+  travellers.forEach((traveller, index) => {
+    const key = `${traveller.age ?? "adult"}|${traveller.bahnCard}|${traveller.travelClass}`;
+    const group = groups.get(key);
+    if (group) {
+      group.indices.push(index);
+    } else {
+      groups.set(key, { traveller, indices: [index] });
+    }
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Search options for one traveller. Unset values are explicitly undefined so
+ * they override request-wide defaults when spread into the search options.
+ */
+export function travellerSearchOptions(
+  traveller: Traveller,
+): TravellerSearchOptions {
+  return {
+    firstClass: traveller.travelClass === 1,
+    loyaltyCard:
+      traveller.bahnCard === "none"
+        ? undefined
+        : {
+            type: loyaltyCards.BAHNCARD,
+            discount: Number.parseInt(traveller.bahnCard, 10),
+            class: traveller.travelClass,
+          },
+    age: traveller.age,
+  };
+}
+
+/**
+ * Identifies the same connection across queries with different tariffs
+ */
+export function journeySignature(journey: VendoJourney): string {
+  return journey.legs
+    .map(
+      (leg) =>
+        `${leg.line?.name || "walk"}-${leg.origin?.id}-${leg.destination?.id}-${leg.departure}`,
+    )
+    .join("|");
+}
+
+function roundPrice(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Combine the journeys found per traveller group (same order as `groups`)
+ * into one list based on the first group. The price becomes the group total;
+ * a journey that is not priced for every traveller has no total price.
+ */
+export function mergeTravellerJourneys(
+  travellers: Traveller[],
+  groups: TravellerGroup[],
+  journeyLists: VendoJourney[][],
+): VendoJourney[] {
+  const [baseList = [], ...otherLists] = journeyLists;
+
+  return baseList.map((journey) => {
+    const signature = journeySignature(journey);
+
+    const groupAmounts = [
+      journey.price?.amount,
+      ...otherLists.map((list) => {
+        // Several offers for the same connection: the cheapest one counts
+        const amounts = list
+          .filter((j) => journeySignature(j) === signature)
+          .flatMap((j) => (j.price ? [j.price.amount] : []));
+        return amounts.length > 0 ? Math.min(...amounts) : undefined;
+      }),
+    ];
+
+    const travellerPrices: TravellerPrice[] = travellers.map((traveller) => ({
+      ...traveller,
+    }));
+    groups.forEach((group, g) => {
+      for (const index of group.indices) {
+        travellerPrices[index].amount = groupAmounts[g];
+      }
+    });
+
+    const total = travellerPrices.reduce<number | undefined>(
+      (sum, { amount }) =>
+        sum === undefined || amount === undefined ? undefined : sum + amount,
+      0,
+    );
+
+    return {
+      ...journey,
+      price:
+        total === undefined
+          ? undefined
+          : { amount: roundPrice(total), hint: journey.price?.hint },
+      travellerPrices,
+    };
+  });
+}
+
+/**
+ * Per-traveller totals over several segments (undefined without traveller prices)
+ */
+export function sumTravellerPrices(
+  segments: VendoJourney[],
+): TravellerPrice[] | undefined {
+  const [first] = segments;
+  if (!first?.travellerPrices) {
+    return undefined;
+  }
+
+  return first.travellerPrices.map((traveller, index) => {
+    let amount: number | undefined = 0;
+    for (const segment of segments) {
+      const segmentAmount = segment.travellerPrices?.[index]?.amount;
+      amount =
+        amount === undefined || segmentAmount === undefined
+          ? undefined
+          : amount + segmentAmount;
+    }
+    return {
+      ...traveller,
+      amount: amount === undefined ? undefined : roundPrice(amount),
+    };
+  });
+}
+
+/**
+ * Check whether a journey was priced for exactly these travellers
+ */
+export function isPricedForTravellers(
+  journey: VendoJourney,
+  travellers: Traveller[],
+): boolean {
+  const prices = journey.travellerPrices;
+  return (
+    prices?.length === travellers.length &&
+    prices.every(
+      (price, index) =>
+        price.age === travellers[index].age &&
+        price.bahnCard === travellers[index].bahnCard &&
+        price.travelClass === travellers[index].travelClass,
+    )
+  );
+}
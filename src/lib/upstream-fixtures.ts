@@ -0,0 +1,244 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { TransportClient } from "./transport-client";
+
+/**
+ * How upstream calls are served:
+ * - `live`: call the network (default)
+ * - `record`: call the network and save request/response pairs as fixtures
+ * - `replay`: serve fixtures only and fail when none matches
+ */
+export type UpstreamMode = "live" | "record" | "replay";
+
+/**
+ * A recorded upstream call
+ */
+export interface UpstreamFixture {
+  request: unknown;
+  response: unknown;
+  recordedAt: string;
+}
+
+/**
+ * Thrown in replay mode when no fixture matches a request
+ */
+export class UpstreamFixtureMissingError extends Error {
+  constructor(
+    public request: unknown,
+    public fixturePath: string,
+  ) {
+    super(
+      `No upstream fixture for request ${JSON.stringify(request)} (expected ${fixturePath})`,
+    );
+    this.name = "UpstreamFixtureMissingError";
+  }
+}
+
+export function getUpstreamMode(): UpstreamMode {
+  const mode = process.env.UPSTREAM_MODE;
+  if (mode === "record" || mode === "replay") return mode;
+  return "live";
+}
+
+function getFixturesDir(): string {
+  return process.env.UPSTREAM_FIXTURES_DIR || "fixtures/upstream";
+}
+
+/**
+ * Normalize a request so equal requests serialize identically:
+ * dates become ISO strings, object keys are sorted, undefined is dropped.
+ */
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [
+          key,
+          normalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+function fixturePath(name: string, request: unknown): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify(request))
+    .digest("hex")
+    .slice(0, 16);
+  return join(getFixturesDir(), `${name}-${hash}.json`);
+}
+
+async function readFixture(name: string, request: unknown) {
+  const path = fixturePath(name, request);
+
+  try {
+    const fixture = JSON.parse(
+      await readFile(path, "utf-8"),
+    ) as UpstreamFixture;
+    return fixture.response;
+  } catch {
+    console.error(`🔴 Upstream fixture missing: ${path}`);
+    throw new UpstreamFixtureMissingError(request, path);
+  }
+}
+
+async function writeFixture(name: string, request: unknown, response: unknown) {
+  const path = fixturePath(name, request);
+  const fixture: UpstreamFixture = {
+    request,
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  try {
+    await mkdir(getFixturesDir(), { recursive: true });
+    await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    console.log(`Upstream fixture recorded: ${path}`);
+  } catch (error) {
+    // Recording must not break the request itself
+    console.error(`Failed to record upstream fixture ${path}:`, error);
+  }
+}
+
+/**
+ * Serve a call according to the upstream mode
+ */
+async function withFixture<T>(
+  name: string,
+  request: unknown,
+  fetchFn: () => Promise<T>,
+  mode: UpstreamMode,
+): Promise<T> {
+  const normalizedRequest = normalize(request);
+
+  if (mode === "replay") {
+    return (await readFixture(name, normalizedRequest)) as T;
+  }
+
+  const response = await fetchFn();
+
+  if (mode === "record") {
+    await writeFixture(name, normalizedRequest, response);
+  }
+
+  return response;
+}
+
+/**
+ * Wrap a TransportClient so its calls are recorded or replayed
+ */
+export function withUpstreamFixtures(
+  client: TransportClient,
+  mode: UpstreamMode = getUpstreamMode(),
+): TransportClient {
+  if (mode === "live") {
+    return client;
+  }
+
+  console.log(`Upstream mode: ${mode} (fixtures in ${getFixturesDir()})`);
+
+  return {
+    journeys: (from, to, options) =>
+      withFixture(
+        "journeys",
+        { from, to, options },
+        () => client.journeys(from, to, options),
+        mode,
+      ),
+    trip: (id, options) =>
+      withFixture(
+        "trip",
+        { id, options },
+        () => client.trip(id, options),
+        mode,
+      ),
+    departures: (stationId, options) =>
+      withFixture(
+        "departures",
+        { stationId, options },
+        () => client.departures(stationId, options),
+        mode,
+      ),
+    locations: (query, options) =>
+      withFixture(
+        "locations",
+        { query, options },
+        () => client.locations(query, options),
+        mode,
+      ),
+  };
+}
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+}
+
+/**
+ * fetch() replacement for bahn.de calls that honours the upstream mode.
+ * Only URL, method and body identify a request; headers such as cookies
+ * change between sessions and are not part of the fixture key.
+ */
+export async function fetchWithFixtures(
+  url: string,
+  init: RequestInit,
+): Promise<Response> {
+  const mode = getUpstreamMode();
+
+  if (mode === "live") {
+    return await fetch(url, init);
+  }
+
+  const recorded = await withFixture<RecordedResponse>(
+    "fetch",
+    { url, method: init.method ?? "GET", body: init.body ?? null },
+    async () => {
+      const response = await fetch(url, init);
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: [
+          // The body is stored decoded, so encoding headers no longer apply
+          ...[...response.headers.entries()].filter(
+            ([key]) =>
+              !["set-cookie", "content-encoding", "content-length"].includes(
+                key,
+              ),
+          ),
+          ...response.headers
+            .getSetCookie()
+            .map((cookie): [string, string] => ["set-cookie", cookie]),
+        ],
+        body: await response.text(),
+      };
+    },
+    mode,
+  );
+
+  const headers = new Headers();
+  for (const [key, value] of recorded.headers) {
+    if (key.toLowerCase() === "set-cookie") {
+      headers.append(key, value);
+    } else {
+      headers.set(key, value);
+    }
+  }
+
+  return new Response(recorded.body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers,
+  });
+}
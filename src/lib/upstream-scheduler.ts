@@ -0,0 +1,246 @@
+/**
+ * Upstream services that are called by this API
+ */
+export type Upstream = "db-vendo" | "bahn-web";
+
+/**
+ * Token bucket configuration for an upstream
+ */
+export interface UpstreamLimit {
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Default limits per upstream
+ */
+export const UPSTREAM_LIMITS: Record<Upstream, UpstreamLimit> = {
+  "db-vendo": { capacity: 5, refillPerSecond: 1 }, // ~60 requests per minute
+  "bahn-web": { capacity: 3, refillPerSecond: 0.5 }, // ~30 requests per minute
+};
+
+/**
+ * Identifies who issues upstream calls (one per route request or analysis).
+ * Callers are served round-robin so a long split analysis cannot starve others.
+ */
+export interface UpstreamCaller {
+  id: string;
+  /** Number of upstream calls dispatched for this caller */
+  calls: number;
+}
+
+interface QueuedCall {
+  caller: UpstreamCaller;
+  endpoint: string;
+  description: string;
+  run: () => void;
+}
+
+interface UpstreamState {
+  tokens: number;
+  lastRefill: number;
+  /** Pending calls grouped by caller, in arrival order of the callers */
+  queues: Map<string, QueuedCall[]>;
+  timer: ReturnType<typeof setTimeout> | null;
+  dispatched: number;
+  /** Queued calls dropped because their caller was aborted */
+  cancelled: number;
+}
+
+const states = new Map<Upstream, UpstreamState>();
+let callerSequence = 0;
+
+function getState(upstream: Upstream): UpstreamState {
+  let state = states.get(upstream);
+  if (!state) {
+    state = {
+      tokens: UPSTREAM_LIMITS[upstream].capacity,
+      lastRefill: Date.now(),
+      queues: new Map(),
+      timer: null,
+      dispatched: 0,
+      cancelled: 0,
+    };
+    states.set(upstream, state);
+  }
+  return state;
+}
+
+function refill(upstream: Upstream, state: UpstreamState) {
+  const { capacity, refillPerSecond } = UPSTREAM_LIMITS[upstream];
+  const now = Date.now();
+  const elapsedSeconds = (now - state.lastRefill) / 1000;
+  state.tokens = Math.min(
+    capacity,
+    state.tokens + elapsedSeconds * refillPerSecond,
+  );
+  state.lastRefill = now;
+}
+
+function queueDepth(state: UpstreamState) {
+  let depth = 0;
+  for (const queue of state.queues.values()) {
+    depth += queue.length;
+  }
+  return depth;
+}
+
+/**
+ * Take the next call round-robin: the first caller in the map is served and
+ * moved to the back if it still has calls waiting.
+ */
+function nextCall(state: UpstreamState): QueuedCall | undefined {
+  for (const [callerId, queue] of state.queues) {
+    const call = queue.shift();
+    state.queues.delete(callerId);
+    if (queue.length > 0) {
+      state.queues.set(callerId, queue);
+    }
+    if (call) {
+      return call;
+    }
+  }
+  return undefined;
+}
+
+function dispatch(upstream: Upstream) {
+  const state = getState(upstream);
+  state.timer = null;
+  refill(upstream, state);
+
+  while (state.tokens >= 1) {
+    const call = nextCall(state);
+    if (!call) {
+      return;
+    }
+
+    state.tokens -= 1;
+    state.dispatched++;
+    call.caller.calls++;
+
+    const depth = queueDepth(state);
+    console.log(
+      `🚆 API Call #${call.caller.calls} [${call.caller.id}] - ${call.endpoint}${
+        call.description ? `: ${call.description}` : ""
+      } (${upstream}, queued: ${depth})`,
+    );
+
+    call.run();
+  }
+
+  if (queueDepth(state) > 0) {
+    // Wait until the next token is available
+    const { refillPerSecond } = UPSTREAM_LIMITS[upstream];
+    const waitMs = Math.ceil(((1 - state.tokens) / refillPerSecond) * 1000);
+    state.timer = setTimeout(() => dispatch(upstream), waitMs);
+  }
+}
+
+/**
+ * Create a caller handle for a route request or analysis
+ */
+export function createUpstreamCaller(name: string): UpstreamCaller {
+  callerSequence++;
+  return { id: `${name}#${callerSequence}`, calls: 0 };
+}
+
+/**
+ * Run an upstream call once the token bucket of the upstream allows it.
+ * An aborted signal removes the call from the queue; a call that is already
+ * running is rejected right away and its response discarded.
+ */
+export function scheduleUpstream<T>(
+  upstream: Upstream,
+  caller: UpstreamCaller,
+  endpoint: string,
+  description: string,
+  fn: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const state = getState(upstream);
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      state.cancelled++;
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      const queue = state.queues.get(caller.id);
+      const index = queue ? queue.indexOf(call) : -1;
+      if (queue && index !== -1) {
+        queue.splice(index, 1);
+        if (queue.length === 0) {
+          state.queues.delete(caller.id);
+        }
+        state.cancelled++;
+      }
+      reject(signal?.reason);
+    };
+
+    const call: QueuedCall = {
+      caller,
+      endpoint,
+      description,
+      run: () => {
+        fn()
+          .then(resolve, reject)
+          .finally(() => signal?.removeEventListener("abort", onAbort));
+      },
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const queue = state.queues.get(caller.id);
+    if (queue) {
+      queue.push(call);
+    } else {
+      state.queues.set(caller.id, [call]);
+    }
+
+    if (!state.timer) {
+      dispatch(upstream);
+    }
+  });
+}
+
+/**
+ * Number of calls waiting for a token, for one or all upstreams
+ */
+export function getUpstreamQueueDepth(upstream?: Upstream): number {
+  if (upstream) {
+    return queueDepth(getState(upstream));
+  }
+
+  let depth = 0;
+  for (const state of states.values()) {
+    depth += queueDepth(state);
+  }
+  return depth;
+}
+
+/**
+ * Get scheduler statistics per upstream
+ */
+export function getUpstreamSchedulerStats() {
+  return Object.fromEntries(
+    (Object.keys(UPSTREAM_LIMITS) as Upstream[]).map((upstream) => {
+      const state = getState(upstream);
+      refill(upstream, state);
+      return [
+        upstream,
+        {
+          queueDepth: queueDepth(state),
+          waitingCallers: state.queues.size,
+          availableTokens: Math.floor(state.tokens),
+          dispatched: state.dispatched,
+          cancelled: state.cancelled,
+          limit: UPSTREAM_LIMITS[upstream],
+        },
+      ];
+    }),
+  );
+}
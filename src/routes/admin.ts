@@ -0,0 +1,60 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { type Context, Hono } from "hono";
+import {
+  DeutschlandTicketRulesError,
+  reloadDeutschlandTicketRules,
+} from "../lib/deutschland-ticket-rules";
+import { apiErrorHandler } from "../lib/error-handler";
+
+const admin = new Hono();
+
+// Vergleich über Hashes, damit die Laufzeit nichts über das Token verrät
+const tokenMatches = (token: string, expected: string) =>
+  timingSafeEqual(
+    createHash("sha256").update(token).digest(),
+    createHash("sha256").update(expected).digest(),
+  );
+
+// Bearer-Token aus ADMIN_TOKEN; ohne gesetztes Token sind die Endpunkte aus
+const requireAdminToken = async (c: Context, next: () => Promise<void>) => {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return c.json({ error: "Admin endpoints are disabled" }, 404);
+  }
+
+  const token = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token || !tokenMatches(token, expected)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  await next();
+};
+
+// POST-Route: Deutschland-Ticket-Regeln zur Laufzeit neu laden
+const reloadRulesHandler = async (c: Context) => {
+  try {
+    const { version, rules, loadedAt } = await reloadDeutschlandTicketRules();
+
+    return c.json({
+      success: true,
+      version,
+      rules: rules.length,
+      loadedAt,
+    });
+  } catch (error) {
+    // Ungültige Regeln werden abgelehnt, die bisherigen bleiben aktiv
+    if (error instanceof DeutschlandTicketRulesError) {
+      return c.json({ error: error.message, issues: error.issues }, 422);
+    }
+    throw error;
+  }
+};
+
+admin.post("/deutschland-ticket-rules/reload", requireAdminToken, async (c) => {
+  return await apiErrorHandler(
+    () => reloadRulesHandler(c),
+    "/api/admin/deutschland-ticket-rules/reload",
+  );
+});
+
+export { admin };
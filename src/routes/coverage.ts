@@ -0,0 +1,37 @@
+import { type Context, Hono } from "hono";
+import { createCoverageReport } from "../lib/coverage-report";
+import { apiErrorHandler } from "../lib/error-handler";
+import { getStationIndex } from "../lib/station-index";
+import { coverageRequestSchema } from "../utils/schemas";
+
+const coverage = new Hono();
+
+// POST-Route: Deutschland-Ticket-Abdeckung einer Verbindung pro Abschnitt
+const handler = async (c: Context) => {
+  const body = await c.req.json().catch(() => null);
+  const validation = coverageRequestSchema.safeParse(body);
+
+  if (!validation.success) {
+    return c.json(
+      {
+        error: "Invalid request: expected a journey with legs",
+        details: validation.error.issues,
+      },
+      400,
+    );
+  }
+
+  // Koordinaten für die Entfernungsschätzung des Zusatztickets
+  const index = await getStationIndex();
+
+  return c.json({
+    success: true,
+    ...createCoverageReport(validation.data.journey, index),
+  });
+};
+
+coverage.post("/", async (c) => {
+  return await apiErrorHandler(() => handler(c), "/api/coverage");
+});
+
+export { coverage };
@@ -0,0 +1,70 @@
+import { type Context, Hono } from "hono";
+import { apiErrorHandler } from "../lib/error-handler";
+import {
+  createSegmentSearchUrl,
+  createStationSearchUrl,
+} from "../utils/createUrl";
+import { deeplinkRequestSchema, type VendoJourney } from "../utils/schemas";
+
+const deeplink = new Hono();
+
+// POST-Route für bahn.de-Links ohne Verbindungssuche
+const handler = async (c: Context) => {
+  const body = await c.req.json().catch(() => null);
+  const validation = deeplinkRequestSchema.safeParse(body);
+
+  if (!validation.success) {
+    return c.json(
+      {
+        error:
+          "Invalid request: expected a journey, or from and to stations ({ id, name }) with a departure",
+        details: validation.error.issues,
+      },
+      400,
+    );
+  }
+
+  const request = validation.data;
+  const travelClass = request.travelClass;
+  const bahnCard = request.bahnCard === "none" ? null : request.bahnCard;
+
+  // Gesperrte Stations-IDs (PROBLEMATIC_STATION_IDS) landen hier als Hinweis
+  const warnings: string[] = [];
+
+  let url: string;
+  try {
+    url =
+      "journey" in request
+        ? createSegmentSearchUrl(
+            request.journey as VendoJourney,
+            travelClass,
+            request.hasDeutschlandTicket,
+            bahnCard,
+            warnings,
+          )
+        : createStationSearchUrl(
+            request.from,
+            request.to,
+            request.departure,
+            travelClass,
+            request.hasDeutschlandTicket,
+            bahnCard,
+            warnings,
+          );
+  } catch (error) {
+    // Fehlende Stationsnamen in der Verbindung
+    return c.json({ error: (error as Error).message }, 400);
+  }
+
+  return c.json({
+    success: true,
+    url,
+    warnings,
+  });
+};
+
+deeplink.post("/", async (c) => {
+  return await apiErrorHandler(() => handler(c), "/api/deeplink");
+});
+
+export { deeplink };
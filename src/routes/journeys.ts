@@ -1,42 +1,94 @@
-import { createClient } from "db-vendo-client";
-import { profile as dbProfile } from "db-vendo-client/p/db/index";
 import { type Context, Hono } from "hono";
 import { z } from "zod";
 import { withCache } from "../lib/cache";
 import { configureSearchOptions } from "../lib/configure-search-options";
 import { apiErrorHandler } from "../lib/error-handler";
 import { extractUrlParams } from "../lib/extract-url-params";
+import { createItineraryGeoJson } from "../lib/geojson";
+import { calendarHeaders, createItineraryCalendar } from "../lib/ical";
 import {
   createRateLimitMiddleware,
   DEFAULT_RATE_LIMITS,
 } from "../lib/ratelimit";
+import { getStationIndex } from "../lib/station-index";
+import { resolveStationName } from "../lib/station-search";
+import type { TransportClient } from "../lib/transport-client";
 import {
-  getApiCount,
-  incrementApiCount,
-  resetApiCount,
-} from "../utils/apiCounter";
-import { vendoJourneySchema } from "../utils/schemas";
-
-const userAgent = "mail@lukasweihrauch.de";
-const client = createClient(dbProfile, userAgent);
+  groupTravellers,
+  mergeTravellerJourneys,
+  travellerSearchOptions,
+} from "../lib/travellers";
+import {
+  createUpstreamCaller,
+  scheduleUpstream,
+} from "../lib/upstream-scheduler";
+import {
+  type Traveller,
+  travellersSchema,
+  type VendoJourney,
+  vendoJourneySchema,
+} from "../utils/schemas";
 
-const journeys = new Hono();
+// Reine Ziffernfolge = EVA-Nummer, alles andere wird als Name aufgelöst
+const STATION_ID_PATTERN = /^\d+$/;
 
 // GET-Route für Verbindungssuche
-const handler = async (c: Context) => {
-  // API-Zähler für neue Verbindungssuche zurücksetzen
-  resetApiCount();
+const handler = async (c: Context, client: TransportClient) => {
+  // Upstream-Aufrufe dieser Verbindungssuche zählen
+  const caller = createUpstreamCaller("journeys");
 
   const urlParams = extractUrlParams(c.req.url);
 
   // Überprüfe ob Start- und Zielstation angegeben sind
   if (!urlParams.from || !urlParams.to) {
     return c.json(
-      { error: "Missing required parameters: from and to station IDs" },
+      {
+        error:
+          "Missing required parameters: from and to (station IDs or names)",
+      },
+      400,
+    );
+  }
+
+  if (!["json", "ics", "geojson"].includes(urlParams.format)) {
+    return c.json(
+      { error: "Invalid format: expected json, ics or geojson" },
       400,
     );
   }
 
+  // Stationsnamen über den Offline-Index in IDs auflösen
+  const resolvedStations: Record<
+    string,
+    { input: string; id: string; name: string }
+  > = {};
+  for (const field of ["from", "to", "via"] as const) {
+    const value = urlParams[field]?.trim();
+    if (!value || STATION_ID_PATTERN.test(value)) continue;
+
+    const resolution = resolveStationName(await getStationIndex(), value);
+    if (resolution.status === "not-found") {
+      return c.json({ error: `Unknown station for ${field}: "${value}"` }, 400);
+    }
+    if (resolution.status === "ambiguous") {
+      return c.json(
+        {
+          error: `Ambiguous station name for ${field}: "${value}"`,
+          field,
+          candidates: resolution.candidates,
+        },
+        400,
+      );
+    }
+
+    urlParams[field] = resolution.station.id;
+    resolvedStations[field] = {
+      input: value,
+      id: resolution.station.id,
+      name: resolution.station.name,
+    };
+  }
+
   // Validiere, dass Abfahrtszeit nicht in der Vergangenheit liegt
   if (urlParams.departure) {
     const departureDate = new Date(urlParams.departure);
@@ -47,57 +99,100 @@ const handler = async (c: Context) => {
     }
   }
 
-  const options = configureSearchOptions(urlParams);
+  // Optionale Reisegruppe als JSON-Array: [{ age, bahnCard, travelClass }]
+  let travellers: Traveller[] | undefined;
+  if (urlParams.travellers) {
+    let travellersInput: unknown;
+    try {
+      travellersInput = JSON.parse(urlParams.travellers);
+    } catch {
+      travellersInput = null;
+    }
 
-  // API-Zähler für Verbindungssuche erhöhen
-  incrementApiCount(
-    "JOURNEY_SEARCH",
-    `Searching journeys from ${urlParams.from} to ${urlParams.to}`,
-  );
+    const travellersResult = travellersSchema.safeParse(travellersInput);
+    if (!travellersResult.success) {
+      return c.json(
+        {
+          error:
+            "Invalid travellers: expected a JSON array of { age, bahnCard, travelClass }",
+          details: travellersResult.error.issues,
+        },
+        400,
+      );
+    }
+    travellers = travellersResult.data;
+  }
+
+  const options = configureSearchOptions(urlParams);
 
-  // Create cache key parameters
-  const cacheParams = {
-    from: urlParams.from,
-    to: urlParams.to,
-    departure: urlParams.departure,
-    hasDeutschlandTicket: urlParams.hasDeutschlandTicket,
-    options: JSON.stringify(options),
-  };
+  // Pro Reisendenprofil eine Abfrage, gleiche Profile teilen sich eine
+  const travellerGroups = travellers ? groupTravellers(travellers) : undefined;
+  const searchOptions = travellerGroups
+    ? travellerGroups.map((group) => ({
+        ...options,
+        ...travellerSearchOptions(group.traveller),
+      }))
+    : [options];
 
   // Verbindungen von DB-API abrufen (with caching)
-  const cacheResult = await withCache(
-    "journeys",
-    {
-      ttl: 300, // 5 minutes cache
-      keyPrefix: "api",
-    },
-    async () => {
-      return await client.journeys(
-        urlParams.from || "",
-        urlParams.to || "",
-        options,
-      );
-    },
-    cacheParams,
+  const cacheResults = await Promise.all(
+    searchOptions.map((queryOptions) =>
+      withCache(
+        "journeys",
+        {
+          ttl: 300, // 5 minutes cache
+          keyPrefix: "api",
+        },
+        async () => {
+          return await scheduleUpstream(
+            "db-vendo",
+            caller,
+            "JOURNEY_SEARCH",
+            `Searching journeys from ${urlParams.from} to ${urlParams.to}`,
+            () =>
+              client.journeys(
+                urlParams.from || "",
+                urlParams.to || "",
+                queryOptions,
+              ),
+          );
+        },
+        // Create cache key parameters
+        {
+          from: urlParams.from,
+          to: urlParams.to,
+          departure: urlParams.departure,
+          hasDeutschlandTicket: urlParams.hasDeutschlandTicket,
+          options: JSON.stringify(queryOptions),
+        },
+      ),
+    ),
   );
 
-  const journeys = cacheResult.value;
-
-  const parseResult = z
-    .object({ journeys: z.array(vendoJourneySchema) })
-    .safeParse(journeys);
+  const journeyLists: VendoJourney[][] = [];
+  for (const cacheResult of cacheResults) {
+    const parseResult = z
+      .object({ journeys: z.array(vendoJourneySchema) })
+      .safeParse(cacheResult.value);
+
+    if (!parseResult.success) {
+      return c.json(
+        {
+          success: false,
+          error: `Validation of 'journeys' on DB-API failed: ${parseResult.error.message}`,
+        },
+        500,
+      );
+    }
 
-  if (!parseResult.success) {
-    return c.json(
-      {
-        success: false,
-        error: `Validation of 'journeys' on DB-API failed: ${parseResult.error.message}`,
-      },
-      500,
-    );
+    journeyLists.push(parseResult.data.journeys);
   }
 
-  let allJourneys = parseResult.data.journeys;
+  // Preise je Reisendem zusammenführen, price enthält den Gruppenpreis
+  let allJourneys =
+    travellers && travellerGroups
+      ? mergeTravellerJourneys(travellers, travellerGroups, journeyLists)
+      : journeyLists[0];
 
   console.log(`Received ${allJourneys.length} journeys from main query`);
 
@@ -231,15 +326,40 @@ const handler = async (c: Context) => {
   }
 
   console.log(
-    `\n✅ JOURNEY SEARCH COMPLETED - Total API calls: ${getApiCount()}\n`,
+    `\n✅ JOURNEY SEARCH COMPLETED - Total API calls: ${caller.calls}\n`,
   );
 
+  // Kalender-Export: jede Verbindung mit einem Termin pro Fahrt
+  if (urlParams.format === "ics") {
+    return c.body(
+      createItineraryCalendar(
+        allJourneys.map((journey) => ({ segments: [journey] })),
+      ),
+      200,
+      calendarHeaders("betterbahn-journeys.ics"),
+    );
+  }
+
+  // Karten-Export: Koordinaten aus dem Offline-Datensatz (db-hafas-stations)
+  if (urlParams.format === "geojson") {
+    return c.json(
+      createItineraryGeoJson(
+        allJourneys.map((journey) => ({ segments: [journey] })),
+        await getStationIndex(),
+      ),
+      200,
+      { "Content-Type": "application/geo+json" },
+    );
+  }
+
   return c.json({
     success: true,
     journeys: allJourneys,
+    ...(travellers && { travellers }),
+    ...(Object.keys(resolvedStations).length > 0 && { resolvedStations }),
     cache: {
-      hit: cacheResult.hit,
-      duration: cacheResult.duration,
+      hit: cacheResults.every((result) => result.hit),
+      duration: Math.max(...cacheResults.map((result) => result.duration)),
     },
   });
 };
@@ -250,8 +370,14 @@ const rateLimitMiddleware = createRateLimitMiddleware({
   keyPrefix: "journeys",
 });
 
-journeys.get("/", rateLimitMiddleware, async (c) => {
-  return await apiErrorHandler(() => handler(c), "/api/journeys");
-});
+const createJourneysRoute = (client: TransportClient) => {
+  const journeys = new Hono();
+
+  journeys.get("/", rateLimitMiddleware, async (c) => {
+    return await apiErrorHandler(() => handler(c, client), "/api/journeys");
+  });
+
+  return journeys;
+};
 
-export { journeys };
+export { createJourneysRoute };
@@ -2,6 +2,12 @@ import { Hono } from "hono";
 import { getCacheStats } from "../lib/cache";
 import { apiErrorHandler } from "../lib/error-handler";
 import { getClientIP, getRateLimitStatus } from "../lib/ratelimit";
+import { getSplitAnalysisStats } from "../lib/split-metrics";
+import { getTopSplitStations } from "../lib/split-station-stats";
+import {
+  getUpstreamQueueDepth,
+  getUpstreamSchedulerStats,
+} from "../lib/upstream-scheduler";
 
 const monitoring = new Hono();
 
@@ -26,6 +32,11 @@ monitoring.get("/cache-stats", async (c) => {
           "cache-stats":
             "/api/monitoring/cache-stats - Cache and rate limit statistics",
           health: "/api/monitoring/health - Health check",
+          upstream: "/api/monitoring/upstream - Upstream scheduler queues",
+          "split-analyses":
+            "/api/monitoring/split-analyses - Completed, failed and cancelled split analyses",
+          "split-stations":
+            "/api/monitoring/split-stations - Top-performing split stations",
           journeys: "/api/journeys - Cached journey search",
         },
       },
@@ -51,6 +62,9 @@ monitoring.get("/health", async (c) => {
         api: {
           status: "operational",
         },
+        upstream: {
+          queueDepth: getUpstreamQueueDepth(),
+        },
       },
       info: {
         description: "BetterBahn Split API - Health Check",
@@ -65,6 +79,56 @@ monitoring.get("/health", async (c) => {
   }, "/api/monitoring/health");
 });
 
+// Upstream scheduler stats endpoint
+monitoring.get("/upstream", async (c) => {
+  return await apiErrorHandler(async () => {
+    return c.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      queueDepth: getUpstreamQueueDepth(),
+      upstreams: getUpstreamSchedulerStats(),
+      info: {
+        description:
+          "Token bucket state and queued calls per upstream (db-vendo-client, bahn.de)",
+      },
+    });
+  }, "/api/monitoring/upstream");
+});
+
+// Split analysis outcomes endpoint
+monitoring.get("/split-analyses", async (c) => {
+  return await apiErrorHandler(async () => {
+    return c.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      analyses: getSplitAnalysisStats(),
+      info: {
+        description:
+          "Split analyses per mode since start; cancelled analyses were aborted by a client disconnect or job cancellation",
+      },
+    });
+  }, "/api/monitoring/split-analyses");
+});
+
+// Learned split station stats endpoint
+monitoring.get("/split-stations", async (c) => {
+  return await apiErrorHandler(async () => {
+    const limit = Number.parseInt(c.req.query("limit") || "20", 10);
+
+    return c.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      stations: await getTopSplitStations(
+        Number.isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 100),
+      ),
+      info: {
+        description:
+          "Split stations that saved money most often over all corridors, from past single-split analyses",
+      },
+    });
+  }, "/api/monitoring/split-stations");
+});
+
 // Rate limit test endpoint
 monitoring.get("/test-rate-limit", async (c) => {
   return await apiErrorHandler(async () => {
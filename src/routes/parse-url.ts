@@ -1,5 +1,9 @@
 import { Hono } from "hono";
 import { apiErrorHandler } from "../lib/error-handler";
+import {
+  createUpstreamCaller,
+  scheduleUpstream,
+} from "../lib/upstream-scheduler";
 import { fetchAndValidateJson } from "../utils/fetchAndValidateJson";
 import { parseHinfahrtReconWithAPI } from "../utils/parseHinfahrtRecon";
 import { vbidSchema } from "../utils/schemas";
@@ -122,13 +126,28 @@ async function getResolvedUrlBrowserless(url: string) {
     throw new Error("No vbid parameter found in URL");
   }
 
-  const vbidRequest = await fetchAndValidateJson({
-    url: `https://www.bahn.de/web/api/angebote/verbindung/${vbid}`,
-    schema: vbidSchema,
-  });
+  const caller = createUpstreamCaller("parse-url");
+
+  const vbidRequest = await scheduleUpstream(
+    "bahn-web",
+    caller,
+    "VBID_LOOKUP",
+    vbid,
+    () =>
+      fetchAndValidateJson({
+        url: `https://www.bahn.de/web/api/angebote/verbindung/${vbid}`,
+        schema: vbidSchema,
+      }),
+  );
 
   const cookies = vbidRequest.response.headers.getSetCookie();
-  const { data } = await parseHinfahrtReconWithAPI(vbidRequest.data, cookies);
+  const { data } = await scheduleUpstream(
+    "bahn-web",
+    caller,
+    "RECON_LOOKUP",
+    vbid,
+    () => parseHinfahrtReconWithAPI(vbidRequest.data, cookies),
+  );
 
   const newUrl = new URL("https://www.bahn.de/buchung/fahrplan/suche");
 
@@ -0,0 +1,370 @@
+import { describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { SearchJourneysOptions } from "db-vendo-client";
+import type { TransportClient } from "../lib/transport-client";
+import { withUpstreamFixtures } from "../lib/upstream-fixtures";
+
+// Without Redis, jobs, stats and the segment cache use their local fallbacks
+mock.module("../lib/redis", () => ({
+  isRedisAvailable: async () => false,
+  getRedisClient: async () => {
+    throw new Error("Redis unavailable");
+  },
+}));
+
+const { createSplitJourneyRoute } = await import("./split-journey");
+
+const DEPARTURE = "2030-01-07T08:00:00.000Z";
+
+const at = (minutes: number) =>
+  new Date(Date.parse(DEPARTURE) + minutes * 60_000).toISOString();
+
+interface FakeStop {
+  id: string;
+  name: string;
+  minutes: number;
+}
+
+/** ICE through `stops`, with the given price for the whole run */
+function originalJourney(stops: FakeStop[], price: number) {
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  return {
+    legs: [
+      {
+        origin: { id: first.id, name: first.name },
+        destination: { id: last.id, name: last.name },
+        departure: at(first.minutes),
+        arrival: at(last.minutes),
+        line: { name: "ICE 597", product: "nationalExpress" },
+        stopovers: stops.map((stop) => ({
+          stop: { id: stop.id, name: stop.name },
+          arrival: at(stop.minutes),
+          departure: at(stop.minutes),
+        })),
+      },
+    ],
+    price: { amount: price },
+  };
+}
+
+/**
+ * TransportClient answering journey searches from a price table keyed by
+ * `<from>-<to>`; the train departs at the requested time
+ */
+function fakeClient(
+  stops: FakeStop[],
+  prices: Record<string, number>,
+  respond: (answer: () => unknown) => Promise<unknown> = async (answer) =>
+    answer(),
+) {
+  const searches: string[] = [];
+  const stop = (id: string) => stops.find((s) => s.id === id) as FakeStop;
+
+  const client: TransportClient = {
+    journeys: (from: string, to: string, options: SearchJourneysOptions) => {
+      searches.push(`${from}-${to}`);
+      const departure = new Date(options.departure as Date).toISOString();
+      // Either direction along `stops`
+      const minutes = Math.abs(stop(to).minutes - stop(from).minutes);
+      return respond(() => ({
+        journeys: [
+          {
+            legs: [
+              {
+                origin: { id: from, name: stop(from).name },
+                destination: { id: to, name: stop(to).name },
+                departure,
+                arrival: new Date(
+                  Date.parse(departure) + minutes * 60_000,
+                ).toISOString(),
+                line: { name: "ICE 597", product: "nationalExpress" },
+              },
+            ],
+            price: { amount: prices[`${from}-${to}`] },
+          },
+        ],
+      }));
+    },
+    trip: async () => ({}),
+    departures: async () => [],
+    locations: async () => [],
+  };
+
+  return { client, searches };
+}
+
+const post = (
+  route: ReturnType<typeof createSplitJourneyRoute>,
+  path: string,
+  body: unknown,
+) =>
+  route.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+interface SplitResponse {
+  splitOptions: { type: string; totalPrice: number }[];
+  returnSplitOptions?: { type: string; totalPrice: number }[];
+  skippedStations?: { id: string; reason: string; direction?: string }[];
+  upstreamBudget?: { limit: number; used: number };
+}
+
+interface JobResponse {
+  jobId: string;
+  job: { status: string; splitOptions: unknown[] };
+}
+
+/** Event IDs and names of an SSE body, in order */
+const sseEvents = (body: string) =>
+  body
+    .split("\n\n")
+    .filter((block) => block.includes("event: "))
+    .map((block) => ({
+      id: block.match(/^id: (.+)$/m)?.[1] ?? "",
+      event: block.match(/^event: (.+)$/m)?.[1],
+    }));
+
+describe("split journey route", () => {
+  test("multi-split finds the cheapest chain of tickets", async () => {
+    const stops = [
+      { id: "8000105", name: "Frankfurt(Main)Hbf", minutes: 0 },
+      { id: "8000244", name: "Mannheim Hbf", minutes: 40 },
+      { id: "8000191", name: "Karlsruhe Hbf", minutes: 65 },
+      { id: "8000774", name: "Baden-Baden", minutes: 80 },
+    ];
+    const { client, searches } = fakeClient(stops, {
+      "8000105-8000244": 20,
+      "8000105-8000191": 70,
+      "8000244-8000191": 20,
+      "8000244-8000774": 70,
+      "8000191-8000774": 20,
+    });
+
+    const response = await post(createSplitJourneyRoute(client), "/", {
+      originalJourney: originalJourney(stops, 100),
+      useMultiSplit: true,
+    });
+    const body = (await response.json()) as SplitResponse;
+
+    expect(response.status).toBe(200);
+    // One search per ticket stretch, the direct journey is the original
+    expect(searches).toHaveLength(5);
+    expect(body.splitOptions[0]).toMatchObject({
+      type: "same-train-multi-split",
+      splitStations: [{ id: "8000244" }, { id: "8000191" }],
+      totalPrice: 60,
+      savings: 40,
+    });
+    expect(
+      body.splitOptions
+        .filter((option) => option.type.includes("single"))
+        .map((option) => option.totalPrice),
+    ).toEqual([90, 90]);
+  }, 15_000);
+
+  test("round trip multi-splits share a tight budget", async () => {
+    const stops = [
+      { id: "8000105", name: "Frankfurt(Main)Hbf", minutes: 0 },
+      { id: "8000667", name: "Montabaur", minutes: 40 },
+      { id: "8000207", name: "Köln Hbf", minutes: 75 },
+      { id: "8000085", name: "Düsseldorf Hbf", minutes: 100 },
+    ];
+    // Only the split in Köln pays off, and it needs the segment to the end
+    const { client } = fakeClient(stops, {
+      "8000105-8000667": 60,
+      "8000667-8000085": 60,
+      "8000105-8000207": 30,
+      "8000207-8000085": 20,
+      "8000667-8000207": 10,
+      "8000085-8000207": 20,
+      "8000207-8000105": 30,
+      "8000085-8000667": 60,
+      "8000667-8000105": 60,
+      "8000207-8000667": 10,
+    });
+    const returnStops = stops
+      .toReversed()
+      .map((stop) => ({ ...stop, minutes: 600 + 100 - stop.minutes }));
+
+    // Both directions together cannot check all five segments each
+    const response = await post(createSplitJourneyRoute(client), "/", {
+      originalJourney: originalJourney(stops, 100),
+      returnJourney: originalJourney(returnStops, 100),
+      useMultiSplit: true,
+      maxUpstreamCalls: 8,
+    });
+    const body = (await response.json()) as SplitResponse;
+
+    expect(response.status).toBe(200);
+    expect(body.splitOptions[0]?.totalPrice).toBe(50);
+    expect(body.returnSplitOptions?.[0]?.totalPrice).toBe(50);
+    expect(body.upstreamBudget?.used).toBeLessThanOrEqual(8);
+    expect(body.skippedStations).toEqual([
+      expect.objectContaining({ id: "8000667", direction: "outbound" }),
+      expect.objectContaining({ id: "8000667", direction: "return" }),
+    ]);
+  }, 15_000);
+
+  test("candidates the budget cannot fully pay for are skipped", async () => {
+    const stops = [
+      { id: "8000152", name: "Hannover Hbf", minutes: 0 },
+      { id: "8000128", name: "Göttingen", minutes: 30 },
+      { id: "8000115", name: "Fulda", minutes: 90 },
+      { id: "8000096", name: "Stuttgart Hbf", minutes: 250 },
+    ];
+    const { client, searches } = fakeClient(stops, {
+      "8000152-8000128": 20,
+      "8000128-8000096": 60,
+      "8000152-8000115": 50,
+      "8000115-8000096": 40,
+    });
+
+    // Each candidate needs two calls: one fits, the third call stays unused
+    const response = await post(createSplitJourneyRoute(client), "/", {
+      originalJourney: originalJourney(stops, 110),
+      maxUpstreamCalls: 3,
+    });
+    const body = (await response.json()) as SplitResponse;
+
+    expect(response.status).toBe(200);
+    expect(searches).toHaveLength(2);
+    expect(body.upstreamBudget).toEqual({ limit: 3, used: 2 });
+    expect(body.splitOptions).toHaveLength(1);
+    expect(body.skippedStations).toHaveLength(1);
+    expect(body.skippedStations?.[0].reason).toBe("budget");
+    expect(searches.join()).not.toContain(body.skippedStations?.[0].id);
+
+    // Not even one candidate fits
+    const { client: idleClient, searches: idleSearches } = fakeClient(
+      stops,
+      {},
+    );
+    const skipped = (await (
+      await post(createSplitJourneyRoute(idleClient), "/", {
+        originalJourney: originalJourney(stops, 110),
+        maxUpstreamCalls: 1,
+      })
+    ).json()) as SplitResponse;
+
+    expect(idleSearches).toHaveLength(0);
+    expect(skipped.skippedStations?.map((station) => station.reason)).toEqual([
+      "budget",
+      "budget",
+    ]);
+  }, 15_000);
+
+  test("replay runs fail when a segment fixture is missing", async () => {
+    const stops = [
+      { id: "8000050", name: "Bremen Hbf", minutes: 0 },
+      { id: "8000238", name: "Osnabrück Hbf", minutes: 50 },
+      { id: "8000263", name: "Münster(Westf)Hbf", minutes: 75 },
+      { id: "8000085", name: "Düsseldorf Hbf", minutes: 165 },
+    ];
+    const { client, searches } = fakeClient(stops, {});
+    const fixturesDir = mkdtempSync(join(tmpdir(), "upstream-fixtures-"));
+    process.env.UPSTREAM_FIXTURES_DIR = fixturesDir;
+
+    try {
+      const route = createSplitJourneyRoute(
+        withUpstreamFixtures(client, "replay"),
+      );
+
+      for (const useMultiSplit of [false, true]) {
+        const response = await post(route, "/", {
+          originalJourney: originalJourney(stops, 130),
+          useMultiSplit,
+        });
+        expect(response.status).toBe(500);
+      }
+      expect(searches).toHaveLength(0);
+    } finally {
+      delete process.env.UPSTREAM_FIXTURES_DIR;
+      rmSync(fixturesDir, { recursive: true, force: true });
+    }
+  }, 15_000);
+
+  test("streams can be resumed from Last-Event-ID", async () => {
+    const stops = [
+      { id: "8000261", name: "München Hbf", minutes: 0 },
+      { id: "8000284", name: "Nürnberg Hbf", minutes: 65 },
+      { id: "8011160", name: "Berlin Hbf", minutes: 240 },
+    ];
+    const { client } = fakeClient(stops, {
+      "8000261-8000284": 30,
+      "8000284-8011160": 40,
+    });
+    const route = createSplitJourneyRoute(client);
+
+    const first = sseEvents(
+      await (
+        await post(route, "/", {
+          originalJourney: originalJourney(stops, 120),
+          useStreaming: true,
+        })
+      ).text(),
+    );
+    expect(first.at(-1)?.event).toBe("complete");
+
+    const [streamId] = first[0].id.split(":");
+    const resumed = await route.request(`/stream/${streamId}`, {
+      headers: { "Last-Event-ID": first[0].id },
+    });
+    const replayed = sseEvents(await resumed.text());
+
+    expect(resumed.status).toBe(200);
+    expect(replayed).toEqual(first.slice(1));
+  }, 15_000);
+
+  test("a cancelled job stays cancelled while its analysis winds down", async () => {
+    const stops = [
+      { id: "8000207", name: "Köln Hbf", minutes: 0 },
+      { id: "8000080", name: "Dortmund Hbf", minutes: 70 },
+      { id: "8002549", name: "Hamburg Hbf", minutes: 240 },
+    ];
+    // Upstream answers only once the test releases it
+    let release = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const { client } = fakeClient(
+      stops,
+      { "8000207-8000080": 25, "8000080-8002549": 35 },
+      async (answer) => {
+        await released;
+        return answer();
+      },
+    );
+    const route = createSplitJourneyRoute(client);
+
+    const created = await post(route, "/jobs", {
+      originalJourney: originalJourney(stops, 110),
+    });
+    const { jobId } = (await created.json()) as JobResponse;
+    expect(created.status).toBe(202);
+
+    const cancelled = await route.request(`/jobs/${jobId}`, {
+      method: "DELETE",
+    });
+    expect(cancelled.status).toBe(200);
+    expect(((await cancelled.json()) as JobResponse).job.status).toBe(
+      "cancelled",
+    );
+
+    release();
+    await Bun.sleep(100);
+
+    const { job } = (await (
+      await route.request(`/jobs/${jobId}`)
+    ).json()) as JobResponse;
+    expect(job.status).toBe("cancelled");
+    expect(job.splitOptions).toEqual([]);
+
+    const again = await route.request(`/jobs/${jobId}`, { method: "DELETE" });
+    expect(((await again.json()) as JobResponse).job.status).toBe("cancelled");
+  }, 15_000);
+});
@@ -1,25 +1,89 @@
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import {
+  type Traveller,
+  travellersSchema,
   vendoJourneySchema,
   validatedVendoJourneySchema,
   type VendoJourney,
 } from "../utils/schemas";
-import type { ProgressInfo, SplitPoint, TrainLine } from "../utils/types.js";
-import { createClient } from "db-vendo-client";
+import type {
+  MultiSplitNode,
+  ProgressInfo,
+  SplitPoint,
+  TrainLine,
+  TripDirection,
+} from "../utils/types.js";
 import { data as loyaltyCards } from "db-vendo-client/format/loyalty-cards";
-import { profile as dbProfile } from "db-vendo-client/p/db/index";
 import { z } from "zod";
-import { getApiCount, incrementApiCount } from "../utils/apiCounter";
+import {
+  findDeutschlandTicketBoundaries,
+  isJourneyCoveredByDeutschlandTicket,
+} from "../utils/deutschlandTicketUtils";
+import { createSegmentSearchUrl } from "../utils/createUrl";
+import { formatTime } from "../utils/formatUtils";
 import { apiErrorHandler } from "../lib/error-handler";
+import { createItineraryGeoJson } from "../lib/geojson";
+import { calendarHeaders, createItineraryCalendar } from "../lib/ical";
+import {
+  cancelSplitJob,
+  createSplitJob,
+  getSplitJob,
+  updateSplitJob,
+} from "../lib/split-jobs";
+import type { TransportClient } from "../lib/transport-client";
+import { UpstreamFixtureMissingError } from "../lib/upstream-fixtures";
+import { type CallBudget, createCallBudget } from "../lib/call-budget";
+import {
+  createSegmentCacheStats,
+  type SegmentCacheStats,
+  withSegmentCache,
+} from "../lib/segment-cache";
+import {
+  createEventBuffer,
+  createSseResponse,
+  getEventBuffer,
+  parseLastEventId,
+} from "../lib/sse-buffer";
+import { trackSplitAnalysis } from "../lib/split-metrics";
+import { rankSplitPoints } from "../lib/split-priority";
+import {
+  getCorridorStats,
+  recordSplitStationOutcomes,
+  type SplitStationOutcome,
+  type SplitStationStats,
+  splitCorridor,
+} from "../lib/split-station-stats";
+import { getStationIndex } from "../lib/station-index";
+import {
+  groupTravellers,
+  isPricedForTravellers,
+  journeySignature,
+  mergeTravellerJourneys,
+  sumTravellerPrices,
+  type TravellerGroup,
+  travellerSearchOptions,
+} from "../lib/travellers";
+import {
+  createUpstreamCaller,
+  scheduleUpstream,
+  type UpstreamCaller,
+} from "../lib/upstream-scheduler";
 
-const client = createClient(dbProfile, "mail@lukasweihrauch.de");
-
-const MIN_SINGLE_SAVINGS_FACTOR = 1; // Preis muss < original * 0.98 sein
 const TIME_TOLERANCE_MS = 60_000; // 1 Minute Toleranz
-const DEFAULT_BATCH_SIZE = 1; // Konservativ für Rate-Limits
+const DEFAULT_BATCH_SIZE = 1; // Konservativ, der Scheduler drosselt zusätzlich
 const VERBOSE = true; // Ausführliche Logs ein/ausschalten
-
-const splitJourney = new Hono();
+const DEFAULT_MAX_ARRIVAL_DELAY_MINUTES = 60; // Späteste Ankunft bei Zugwechsel
+const MIN_TRANSFER_MS = 5 * 60_000; // Mindestumstiegszeit bei Zugwechsel
+const CROSS_TRAIN_RESULTS = 5; // Alternativen für das zweite Teilstück
+const DEUTSCHLAND_TICKET_PRICE_HINT = "Deutschland-Ticket"; // Preis 0, abgedeckt
+const ROUND_TRIP_CALL_BUDGET = 120; // Geteiltes Budget für Hin- und Rückfahrt
+const DEPARTURE_WINDOW_CALL_BUDGET = 150; // Budget für alle Züge im Zeitfenster
+const MAX_DEPARTURE_WINDOW_MINUTES = 360; // Größtes erlaubtes Zeitfenster (±)
+const DEPARTURE_WINDOW_RESULTS = 10; // Verbindungen pro Suchanfrage im Zeitfenster
+const DEPARTURE_WINDOW_MAX_PAGES = 4; // Suchanfragen, um das Zeitfenster abzudecken
+const MAX_UPSTREAM_CALLS_LIMIT = 500; // Größtes erlaubtes maxUpstreamCalls
+const MIN_TRIES_TO_PRUNE = 5; // Versuche ohne Ersparnis, bevor eine Station entfällt
+const PRUNE_EXPLORATION_RATE = 0.1; // Anteil entfallender Stationen, die trotzdem geprüft werden
 
 interface QueryOptions {
   deutschlandTicketDiscount?: boolean;
@@ -37,6 +101,64 @@ interface QueryOptions {
   age?: number;
 }
 
+// Zugwechsel am Split-Bahnhof erlauben (opt-in)
+interface CrossTrainOptions {
+  maxArrivalDelayMinutes: number;
+}
+
+// Mindestersparnis und Abzug pro zusätzlichem Ticket (Standard: jede Ersparnis)
+interface SavingsThresholds {
+  minSavingsEuro: number;
+  minSavingsPercent: number;
+  extraTicketPenalty: number;
+}
+
+const DEFAULT_SAVINGS_THRESHOLDS: SavingsThresholds = {
+  minSavingsEuro: 0,
+  minSavingsPercent: 0,
+  extraTicketPenalty: 0,
+};
+
+// Gemeinsamer Zustand einer Split-Analyse
+interface SplitContext {
+  queryOptions: QueryOptions;
+  savingsThresholds: SavingsThresholds;
+  segmentStats: SegmentCacheStats;
+  caller: UpstreamCaller;
+  client: TransportClient;
+  signal?: AbortSignal;
+  // Reisegruppe: Teilstücke werden je Profil abgefragt, entschieden wird am Gruppenpreis
+  travellers?: { list: Traveller[]; groups: TravellerGroup[] };
+  // Obergrenze für Live-Abfragen, z.B. geteilt zwischen Hin- und Rückfahrt
+  budget?: CallBudget;
+  // Anteil des verbleibenden Budgets, den die Multi-Split-Auswahl einplant;
+  // Hin- und Rückfahrt laufen parallel und bekommen je die Hälfte
+  budgetShare?: number;
+}
+
+// Rückmeldungen während der Analyse (Streaming, Jobs)
+interface SplitAnalysisCallbacks {
+  onProgress?: (progress: ProgressInfo) => void;
+  onOption?: (option: SplitResult, direction?: TripDirection) => void;
+  // Kandidaten, die wegen des Upstream-Budgets oder der Statistik nicht
+  // geprüft wurden; departure: Abfahrt des Zuges im Abfahrts-Zeitfenster
+  onSkipped?: (
+    splitPoints: SplitPoint[],
+    reason: SkipReason,
+    departure?: string
+  ) => void;
+}
+
+type SplitResult = ReturnType<typeof createSplitResult>;
+
+// budget: Upstream-Budget aufgebraucht, history: bisher nie eine Ersparnis
+type SkipReason = "budget" | "history";
+
+interface SplitAnalysisOptions {
+  useMultiSplit: boolean;
+  crossTrain?: CrossTrainOptions;
+}
+
 // Helper Functions
 function buildQueryOptions({
   bahnCard,
@@ -79,7 +201,10 @@ function buildQueryOptions({
   return options;
 }
 
-function extractSplitPoints(journey: VendoJourney) {
+function extractSplitPoints(
+  journey: VendoJourney,
+  hasDeutschlandTicket = false
+) {
   const map = new Map<string, SplitPoint>();
 
   journey.legs.forEach((leg, legIndex) => {
@@ -118,10 +243,43 @@ function extractSplitPoints(journey: VendoJourney) {
     });
   });
 
-  const uniqueStops = Array.from(map.values());
+  // Mit Deutschland-Ticket lohnt sich ein Split dort, wo die Abdeckung wechselt.
+  // Umstiegsbahnhöfe sind sonst keine Kandidaten und werden ergänzt.
+  if (hasDeutschlandTicket) {
+    for (const boundary of findDeutschlandTicketBoundaries(journey.legs)) {
+      const existing = map.get(boundary.stop.id);
+      if (existing) {
+        existing.coverageBoundary = true;
+        continue;
+      }
+      if (!boundary.arrival || !boundary.departure) continue;
+
+      const line = journey.legs[boundary.legIndex].line;
+      map.set(boundary.stop.id, {
+        station: { id: boundary.stop.id, name: boundary.stop.name || "" },
+        arrival: boundary.arrival,
+        departure: boundary.departure,
+        trainLine: line
+          ? { name: line.name, product: line.product || line.productName }
+          : undefined,
+        legIndex: boundary.legIndex,
+        stopIndex: boundary.stopIndex,
+        coverageBoundary: true,
+      });
+    }
+  }
+
+  // Fahrtreihenfolge beibehalten (Multi-Split baut darauf auf)
+  const uniqueStops = Array.from(map.values()).sort(
+    (a, b) => new Date(a.departure).getTime() - new Date(b.departure).getTime()
+  );
 
   if (VERBOSE) {
-    console.log(`Extracted ${uniqueStops.length} unique split candidates.`);
+    console.log(
+      `Extracted ${uniqueStops.length} unique split candidates (${
+        uniqueStops.filter((sp) => sp.coverageBoundary).length
+      } at Deutschland-Ticket boundaries).`
+    );
   }
 
   return uniqueStops;
@@ -130,15 +288,22 @@ function extractSplitPoints(journey: VendoJourney) {
 async function analyzeSplitPoints(
   originalJourney: VendoJourney,
   splitPoints: SplitPoint[],
-  queryOptions: QueryOptions,
+  context: SplitContext,
   originalPrice: number,
   {
     onProgress,
+    onOption,
+    onSkipped,
     batchSize = DEFAULT_BATCH_SIZE,
-  }: { onProgress?: unknown; batchSize?: number } = {}
+    crossTrain,
+  }: SplitAnalysisCallbacks & {
+    batchSize?: number;
+    crossTrain?: CrossTrainOptions;
+  } = {}
 ) {
-  const splitOptions = [];
-  const streaming = typeof onProgress === "function";
+  const splitOptions: SplitResult[] = [];
+  const outcomes: SplitStationOutcome[] = [];
+  const streaming = Boolean(onProgress);
   if (VERBOSE)
     console.log(
       `\n🔍 Analyse von ${splitPoints.length} Split-Stationen gestartet (streaming=${streaming})`
@@ -147,17 +312,33 @@ async function analyzeSplitPoints(
   const processBatch = async (points: SplitPoint[]) => {
     const results = await Promise.allSettled(
       points.map((sp) =>
-        analyzeSingleSplit(originalJourney, sp, queryOptions, originalPrice)
+        analyzeSingleSplit(
+          originalJourney,
+          sp,
+          context,
+          originalPrice,
+          crossTrain
+        )
       )
     );
     results.forEach((res, idx) => {
       const sp = points[idx];
+      if (res.status === "rejected") {
+        rethrowIfFatal(res.reason, context);
+      }
+      if (res.status === "fulfilled") {
+        outcomes.push({
+          station: sp.station,
+          savings: res.value?.savings ?? null,
+        });
+      }
       if (
         res.status === "fulfilled" &&
         res.value &&
-        res.value.totalPrice < originalPrice * MIN_SINGLE_SAVINGS_FACTOR
+        meetsSavingsThresholds(res.value, context.savingsThresholds)
       ) {
         splitOptions.push(res.value);
+        onOption?.(res.value);
         if (VERBOSE)
           console.log(
             `✅ ${sp.station?.name}: €${res.value.totalPrice} (saves €${res.value.savings})`
@@ -168,8 +349,13 @@ async function analyzeSplitPoints(
     });
   };
 
-  if (streaming) {
+  if (onProgress) {
     for (let i = 0; i < splitPoints.length; i++) {
+      context.signal?.throwIfAborted();
+      if (affordableSplitPoints(context, splitPoints.length - i) === 0) {
+        onSkipped?.(splitPoints.slice(i), "budget");
+        break;
+      }
       const sp = splitPoints[i];
       onProgress({
         checked: i,
@@ -181,16 +367,21 @@ async function analyzeSplitPoints(
         const option = await analyzeSingleSplit(
           originalJourney,
           sp,
-          queryOptions,
-          originalPrice
+          context,
+          originalPrice,
+          crossTrain
         );
+        outcomes.push({ station: sp.station, savings: option?.savings ?? null });
         if (
           option &&
-          option.totalPrice < originalPrice * MIN_SINGLE_SAVINGS_FACTOR
-        )
+          meetsSavingsThresholds(option, context.savingsThresholds)
+        ) {
           splitOptions.push(option);
-      } catch {
+          onOption?.(option);
+        }
+      } catch (error) {
         /* logged */
+        rethrowIfFatal(error, context);
       }
       onProgress({
         checked: i + 1,
@@ -201,85 +392,216 @@ async function analyzeSplitPoints(
             : `${i + 1}/${splitPoints.length} Stationen geprüft`,
         currentStation: sp.station?.name,
       });
-      if (i < splitPoints.length - 1)
-        await new Promise((r) => setTimeout(r, 100));
     }
   } else {
-    for (let i = 0; i < splitPoints.length; i += batchSize) {
-      await processBatch(splitPoints.slice(i, i + batchSize));
-      if (i + batchSize < splitPoints.length)
-        await new Promise((r) => setTimeout(r, 100));
+    // Drosselung übernimmt der Upstream-Scheduler
+    let i = 0;
+    while (i < splitPoints.length) {
+      context.signal?.throwIfAborted();
+      const count = Math.min(
+        batchSize,
+        affordableSplitPoints(context, splitPoints.length - i)
+      );
+      if (count === 0) {
+        onSkipped?.(splitPoints.slice(i), "budget");
+        break;
+      }
+      await processBatch(splitPoints.slice(i, i + count));
+      i += count;
     }
+    context.signal?.throwIfAborted();
   }
+
+  // Ergebnisse für künftige Analysen derselben Strecke merken
+  recordSplitStationOutcomes(
+    journeyCorridor(originalJourney, context, crossTrain),
+    outcomes
+  ).catch((error) =>
+    console.error("Failed to record split station stats:", error)
+  );
+
   return splitOptions;
 }
 
+// Strecke und Tarif einer Fahrt für die Split-Statistik (Start → Ziel)
+function journeyCorridor(
+  journey: VendoJourney,
+  context: SplitContext,
+  crossTrain?: CrossTrainOptions
+) {
+  const { loyaltyCard, firstClass, deutschlandTicketDiscount } =
+    context.queryOptions;
+  return splitCorridor(
+    journey.legs[0].origin?.id ?? "",
+    journey.legs[journey.legs.length - 1].destination?.id ?? "",
+    {
+      bahnCard: loyaltyCard?.discount ?? null,
+      travelClass: firstClass ? 1 : 2,
+      deutschlandTicket: Boolean(deutschlandTicketDiscount),
+      crossTrain: Boolean(crossTrain),
+    }
+  );
+}
+
+// Live-Abfragen pro Kandidat: beide Teilstücke je Tarifgruppe der Reisenden
+function callsPerSplitPoint(context: SplitContext) {
+  return 2 * (context.travellers?.groups.length ?? 1);
+}
+
+// Live-Abfragen pro Teilstrecke im Multi-Split: eine je Tarifgruppe
+function callsPerMultiSplitPair(context: SplitContext) {
+  return context.travellers?.groups.length ?? 1;
+}
+
+// Sortiert Kandidaten nach bisherigen Ergebnissen auf dieser Strecke und in
+// diesem Tarif: Stationen mit Ersparnis zuerst. Nur wenn das Budget nicht für
+// alle Kandidaten reicht, entfallen Stationen ohne Ersparnis nach mehreren
+// Versuchen; ein Teil davon wird trotzdem geprüft, damit sich geänderte Preise
+// zeigen. Wechselpunkte des Deutschland-Ticket bleiben immer erhalten.
+async function applyLearnedStats(
+  journey: VendoJourney,
+  splitPoints: SplitPoint[],
+  context: SplitContext,
+  crossTrain?: CrossTrainOptions
+) {
+  let stats: Map<string, SplitStationStats>;
+  try {
+    stats = await getCorridorStats(
+      journeyCorridor(journey, context, crossTrain)
+    );
+  } catch (error) {
+    console.error("Failed to load split station stats:", error);
+    return { splitPoints, pruned: [] };
+  }
+
+  const { budget } = context;
+  const budgetTooSmall =
+    budget !== undefined &&
+    budget.limit - budget.used <
+      splitPoints.length * callsPerSplitPoint(context);
+  const explored = new Set(
+    splitPoints.filter(() => Math.random() < PRUNE_EXPLORATION_RATE)
+  );
+
+  const isPruned = (sp: SplitPoint) => {
+    const entry = stats.get(sp.station.id);
+    return (
+      budgetTooSmall &&
+      !sp.coverageBoundary &&
+      !explored.has(sp) &&
+      entry !== undefined &&
+      entry.hits === 0 &&
+      entry.tries >= MIN_TRIES_TO_PRUNE
+    );
+  };
+  const score = (sp: SplitPoint) => {
+    const entry = stats.get(sp.station.id);
+    return entry ? entry.hitRate * entry.averageSavings : 0;
+  };
+
+  return {
+    // sort ist stabil: ohne Statistik bleibt die bisherige Reihenfolge
+    splitPoints: splitPoints
+      .filter((sp) => !isPruned(sp))
+      .sort((a, b) => score(b) - score(a)),
+    pruned: splitPoints.filter(isPruned),
+  };
+}
+
+// Fehler einzelner Kandidaten werden übergangen; ein Abbruch des Clients und
+// fehlende Fixtures im Replay-Modus beenden dagegen die ganze Analyse
+function rethrowIfFatal(error: unknown, context: SplitContext) {
+  context.signal?.throwIfAborted();
+  if (error instanceof UpstreamFixtureMissingError) throw error;
+}
+
+// Ein Kandidat wird nur begonnen, wenn das Budget für alle seine
+// Live-Abfragen reicht; sonst verbraucht er Calls und liefert kein Ergebnis
+function hasBudgetFor(
+  context: SplitContext,
+  calls: number,
+  remaining: number
+) {
+  const { budget } = context;
+  if (!budget || budget.limit - budget.used >= calls) return true;
+  if (VERBOSE)
+    console.log(
+      `⏹️ Upstream-Budget (${budget.limit} Calls) aufgebraucht, ${remaining} Kandidaten übersprungen`
+    );
+  return false;
+}
+
+// Wie viele der verbleibenden Kandidaten das Budget noch vollständig abdeckt
+function affordableSplitPoints(context: SplitContext, remaining: number) {
+  const { budget } = context;
+  const calls = callsPerSplitPoint(context);
+  if (!hasBudgetFor(context, calls, remaining)) return 0;
+  return budget
+    ? Math.min(remaining, Math.floor((budget.limit - budget.used) / calls))
+    : remaining;
+}
+
 // Split Analysis Functions
 async function analyzeSingleSplit(
   originalJourney: VendoJourney,
   splitPoint: SplitPoint,
-  queryOptions: QueryOptions,
-  originalPrice: number
+  context: SplitContext,
+  originalPrice: number,
+  crossTrain?: CrossTrainOptions
 ) {
   const origin = originalJourney.legs[0].origin;
-  const destination =
-    originalJourney.legs[originalJourney.legs.length - 1].destination;
+  const lastLeg = originalJourney.legs[originalJourney.legs.length - 1];
+  const destination = lastLeg.destination;
   const originalDeparture = new Date(originalJourney.legs[0].departure);
   const splitDeparture = new Date(splitPoint.departure);
 
   try {
-    // Increment API counters for both segments
-    incrementApiCount(
-      "SPLIT_SEARCH_SEGMENT_1",
-      `${origin?.name} → ${splitPoint.station?.name}`
-    );
-    incrementApiCount(
-      "SPLIT_SEARCH_SEGMENT_2",
-      `${splitPoint.station?.name} → ${destination?.name}`
-    );
-
     // Schema validation at entry point ensures origin/destination IDs exist
 
     // Make both API calls in parallel using Promise.all
-    const [firstSegmentUntyped, secondSegmentUntyped] = await Promise.all([
-      client.journeys(origin!.id, splitPoint.station.id, {
-        ...queryOptions,
-        departure: originalDeparture,
-      }),
-
-      client.journeys(splitPoint.station.id, destination!.id, {
-        ...queryOptions,
-        departure: splitDeparture,
-      }),
+    const [firstJourney, secondJourneys] = await Promise.all([
+      fetchSegmentJourney(
+        origin!.id,
+        splitPoint.station.id,
+        originalDeparture,
+        context,
+        "SPLIT_SEARCH_SEGMENT_1",
+        `${origin?.name} → ${splitPoint.station?.name}`
+      ),
+      // Bei erlaubtem Zugwechsel ab Ankunft am Split-Bahnhof nach Alternativen suchen
+      fetchSegmentJourneys(
+        splitPoint.station.id,
+        destination!.id,
+        crossTrain
+          ? new Date(splitPoint.arrival || splitPoint.departure)
+          : splitDeparture,
+        crossTrain
+          ? {
+              ...context,
+              queryOptions: {
+                ...context.queryOptions,
+                results: CROSS_TRAIN_RESULTS,
+              },
+            }
+          : context,
+        "SPLIT_SEARCH_SEGMENT_2",
+        `${splitPoint.station?.name} → ${destination?.name}`
+      ),
     ]);
 
-    const clientJourneySchema = z.object({
-      journeys: z.array(vendoJourneySchema),
-    });
-
-    const firstSegment = clientJourneySchema.parse(firstSegmentUntyped);
-    const secondSegment = clientJourneySchema.parse(secondSegmentUntyped);
-
-    if (
-      firstSegment.journeys === undefined ||
-      secondSegment.journeys === undefined
-    ) {
-      return null;
-    }
-
-    const firstJourney = findMatchingJourney(
-      firstSegment.journeys,
-      originalDeparture
-    );
-
     if (!firstJourney) {
       return null;
     }
 
-    const secondJourney = findMatchingJourney(
-      secondSegment.journeys,
-      splitDeparture
-    );
+    const secondJourney = crossTrain
+      ? findFollowUpJourney(
+          secondJourneys,
+          firstJourney,
+          splitDeparture,
+          new Date(lastLeg.arrival),
+          crossTrain
+        )
+      : findMatchingJourney(secondJourneys, splitDeparture);
 
     if (!secondJourney) {
       return null;
@@ -290,14 +612,38 @@ async function analyzeSingleSplit(
     const secondPrice = secondJourney.price?.amount || 0;
     const totalPrice = firstPrice + secondPrice;
 
-    if (totalPrice > 0 && totalPrice < originalPrice) {
+    const coveredByDeutschlandTicket =
+      isDeutschlandTicketSegment(firstJourney) &&
+      isDeutschlandTicketSegment(secondJourney);
+
+    if (
+      (totalPrice > 0 || coveredByDeutschlandTicket) &&
+      totalPrice < originalPrice
+    ) {
+      const sameTrain = isSameDeparture(secondJourney, splitDeparture);
+
       return createSplitResult(
         "single",
         [splitPoint.station],
         [firstJourney, secondJourney],
         totalPrice,
         originalPrice,
-        splitPoint.trainLine
+        splitPoint.trainLine,
+        sameTrain
+          ? undefined
+          : {
+              // Ein früher ankommender Zug kostet keine zusätzliche Reisezeit
+              extraTravelMinutes: Math.max(
+                0,
+                Math.round(
+                  (new Date(
+                    secondJourney.legs[secondJourney.legs.length - 1].arrival
+                  ).getTime() -
+                    new Date(lastLeg.arrival).getTime()) /
+                    60_000
+                )
+              ),
+            }
       );
     }
 
@@ -312,221 +658,1700 @@ async function analyzeSingleSplit(
   }
 }
 
-function createSplitResult(
-  type: string,
-  splitStations: unknown,
-  segments: VendoJourney[],
-  totalPrice: number,
-  originalPrice: number,
-  trainLine?: TrainLine
+// Sucht ein Teilstück und liefert die Verbindung mit passender Abfahrtszeit (gleicher Zug)
+async function fetchSegmentJourney(
+  fromStationId: string,
+  toStationId: string,
+  departure: Date,
+  context: SplitContext,
+  endpoint: string,
+  description: string
 ) {
-  const savings = originalPrice - totalPrice;
+  const journeys = await fetchSegmentJourneys(
+    fromStationId,
+    toStationId,
+    departure,
+    context,
+    endpoint,
+    description
+  );
 
-  return {
-    type: `same-train-${type}-split`,
-    splitStations,
-    segments,
-    totalPrice,
-    originalPrice,
-    savings,
-    savingsPercentage: ((savings / originalPrice) * 100).toFixed(1),
-    trainInfo: {
-      line: trainLine?.name || "Unknown",
-      product: trainLine?.product || "Unknown",
-    },
-  };
+  return findMatchingJourney(journeys, departure);
 }
 
-function findMatchingJourney(
-  journeys: readonly VendoJourney[],
-  targetDeparture: Date
+async function fetchSegmentJourneys(
+  fromStationId: string,
+  toStationId: string,
+  departure: Date,
+  context: SplitContext,
+  endpoint: string,
+  description: string
 ) {
-  if (!journeys?.length) return null;
-  const expected = targetDeparture.getTime();
-  return (
-    journeys.find(
-      (j) =>
-        Math.abs(new Date(j.legs[0].departure).getTime() - expected) <=
-        TIME_TOLERANCE_MS
-    ) || null
+  const fetchWithOptions = async (options: QueryOptions) => {
+    // Segmentpreise werden analyseübergreifend geteilt (gleicher Zug, gleicher Tarif)
+    const { value: segmentUntyped } = await withSegmentCache(
+      { from: fromStationId, to: toStationId, departure, options },
+      () =>
+        scheduleUpstream(
+          "db-vendo",
+          context.caller,
+          endpoint,
+          description,
+          () => context.client.journeys(fromStationId, toStationId, options),
+          context.signal
+        ),
+      context.segmentStats,
+      () => {
+        // Abgebrochene Analysen erreichen den Upstream nicht mehr; nur
+        // Live-Abfragen zählen gegen das Budget, Cache-Treffer sind frei
+        context.signal?.throwIfAborted();
+        context.budget?.consume();
+      }
+    );
+
+    return z
+      .object({ journeys: z.array(vendoJourneySchema) })
+      .parse(segmentUntyped).journeys;
+  };
+
+  const baseOptions = { ...context.queryOptions, departure };
+  const { travellers } = context;
+
+  const journeys = travellers
+    ? mergeTravellerJourneys(
+        travellers.list,
+        travellers.groups,
+        await Promise.all(
+          travellers.groups.map((group) =>
+            fetchWithOptions({
+              ...baseOptions,
+              ...travellerSearchOptions(group.traveller),
+            })
+          )
+        )
+      )
+    : await fetchWithOptions(baseOptions);
+
+  return journeys.map((journey) =>
+    withBookingUrl(
+      applyDeutschlandTicket(
+        journey,
+        Boolean(context.queryOptions.deutschlandTicketDiscount)
+      ),
+      context
+    )
   );
 }
 
-// Streaming handler for real-time progress updates
-function handleStreamingResponse(
-  originalJourney: VendoJourney,
-  splitPoints: SplitPoint[],
-  bahnCard: string,
-  hasDeutschlandTicket: boolean,
-  passengerAge: string,
-  travelClass: string
-) {
-  const encoder = new TextEncoder();
+// bahn.de-Link zum Buchen des Teilstücks mit Klasse, BahnCard und
+// Deutschland-Ticket der Anfrage (bei Reisegruppen: erste reisende Person)
+function withBookingUrl(
+  journey: VendoJourney,
+  context: SplitContext
+): VendoJourney {
+  const options = context.travellers
+    ? {
+        ...context.queryOptions,
+        ...travellerSearchOptions(context.travellers.list[0]),
+      }
+    : context.queryOptions;
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      try {
-        // Build query options
-        const queryOptions = buildQueryOptions({
-          bahnCard,
-          hasDeutschlandTicket,
-          passengerAge,
-          travelClass,
-        });
+  try {
+    return {
+      ...journey,
+      bookingUrl: createSegmentSearchUrl(
+        journey,
+        options.firstClass ? 1 : 2,
+        Boolean(options.deutschlandTicketDiscount),
+        options.loyaltyCard ? String(options.loyaltyCard.discount) : null
+      ),
+    };
+  } catch {
+    // Ohne Stationsnamen lässt sich kein Link bauen
+    return journey;
+  }
+}
+
+// Vom Deutschland-Ticket abgedeckte Teilstücke kosten nichts zusätzlich
+function applyDeutschlandTicket(
+  journey: VendoJourney,
+  hasDeutschlandTicket: boolean
+): VendoJourney {
+  if (!isJourneyCoveredByDeutschlandTicket(journey, hasDeutschlandTicket)) {
+    return journey;
+  }
+  return {
+    ...journey,
+    price: { amount: 0, hint: DEUTSCHLAND_TICKET_PRICE_HINT },
+    travellerPrices: journey.travellerPrices?.map((price) => ({
+      ...price,
+      amount: 0,
+    })),
+  };
+}
 
-        const originalPrice = originalJourney.price?.amount || 0;
+function isDeutschlandTicketSegment(journey: VendoJourney) {
+  return journey.price?.hint === DEUTSCHLAND_TICKET_PRICE_HINT;
+}
 
-        // Send initial progress
-        const initialData = {
-          type: "progress",
-          checked: 0,
-          total: splitPoints.length,
-          message: "Analyse gestartet...",
-        };
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(initialData)}\n\n`)
-        );
+// Multi-Split: Preise für alle Teilstrecken zwischen zwei Kandidaten ermitteln
+// und die günstigste Kette von Tickets über die gesamte Zugfahrt bestimmen
+// Multi-Split braucht Teilstrecken zwischen allen Kandidaten. Reicht das
+// Budget nicht, werden nur die vielversprechendsten Kandidaten verwendet.
+function selectMultiSplitPoints(
+  originalJourney: VendoJourney,
+  splitPoints: SplitPoint[],
+  context: SplitContext
+) {
+  const { budget } = context;
+  if (!budget) return splitPoints;
 
-        // Find split options with progress updates
-        const splitOptions = await analyzeSplitPoints(
-          originalJourney,
-          splitPoints,
-          queryOptions,
-          originalPrice,
-          {
-            onProgress: (progress: ProgressInfo) => {
-              controller.enqueue(
-                encoder.encode(
-                  `data: ${JSON.stringify({
-                    type: "progress",
-                    checked: progress.checked,
-                    total: progress.total,
-                    message: progress.message,
-                    currentStation: progress.currentStation,
-                  })}\n\n`
-                )
-              );
-            },
-            batchSize: 1,
-          }
-        );
+  const maxPairs = Math.floor(
+    ((budget.limit - budget.used) * (context.budgetShare ?? 1)) /
+      callsPerMultiSplitPair(context)
+  );
 
-        // Send final result
-        const finalData = {
-          type: "complete",
-          success: true,
-          splitOptions: splitOptions.sort((a, b) => b.savings - a.savings),
-          originalPrice,
-        };
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(finalData)}\n\n`)
-        );
-      } catch (error) {
-        const typedError = error as { message?: string };
-
-        const errorData = {
-          type: "error",
-          error: typedError.message || "Failed to analyze split journeys",
-        };
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(errorData)}\n\n`)
-        );
-      } finally {
-        controller.close();
-      }
-    },
-  });
+  // k Kandidaten ergeben höchstens (k + 2)(k + 1) / 2 - 1 Teilstrecken
+  let count = splitPoints.length;
+  while (count > 0 && ((count + 2) * (count + 1)) / 2 - 1 > maxPairs) {
+    count--;
+  }
+  if (count === splitPoints.length) return splitPoints;
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
-  });
+  const selected = new Set(
+    rankSplitPoints(originalJourney, splitPoints).slice(0, count)
+  );
+  return splitPoints.filter((sp) => selected.has(sp));
 }
 
-// POST-Route für Split-Journey Analyse
-const handler = async (c: any) => {
-  // Übergebene Daten aus der Anfrage extrahieren
-  const {
+async function analyzeMultiSplit(
+  originalJourney: VendoJourney,
+  candidates: SplitPoint[],
+  context: SplitContext,
+  originalPrice: number,
+  { onProgress, onOption, onSkipped }: SplitAnalysisCallbacks = {}
+) {
+  const splitPoints = selectMultiSplitPoints(
     originalJourney,
-    bahnCard,
-    hasDeutschlandTicket,
-    passengerAge,
-    travelClass,
-    useStreaming,
-  } = await c.req.json();
-
-  // Validate originalJourney with schema
-  try {
-    validatedVendoJourneySchema.parse(originalJourney);
-  } catch (error) {
-    return c.json(
-      {
-        error:
-          "Invalid originalJourney: missing required station IDs or journey structure",
-        details: error instanceof z.ZodError ? error.issues : undefined,
-      },
-      400
+    candidates,
+    context
+  );
+  if (splitPoints.length < candidates.length) {
+    onSkipped?.(
+      candidates.filter((sp) => !splitPoints.includes(sp)),
+      "budget"
     );
   }
 
-  // Split-Kandidaten aus vorhandenen Legs ableiten (keine zusätzlichen API Calls)
-  const splitPoints = extractSplitPoints(originalJourney);
+  const firstLeg = originalJourney.legs[0];
+  const lastLeg = originalJourney.legs[originalJourney.legs.length - 1];
 
-  if (splitPoints.length === 0) {
-    return c.json({
-      success: true,
-      splitOptions: [],
-      message: "No split points found",
-    });
+  // Knoten: Start, alle Split-Kandidaten in Fahrtreihenfolge, Ziel
+  const nodes: MultiSplitNode[] = [
+    { station: firstLeg.origin!, departure: firstLeg.departure },
+    ...splitPoints.map((sp) => ({
+      station: sp.station,
+      departure: sp.departure,
+      trainLine: sp.trainLine,
+    })),
+    { station: lastLeg.destination! },
+  ];
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < nodes.length - 1; i++) {
+    if (!nodes[i].departure) continue;
+    for (let j = i + 1; j < nodes.length; j++) {
+      // Die direkte Verbindung Start → Ziel ist die Originalbuchung
+      if (i === 0 && j === nodes.length - 1) continue;
+      pairs.push([i, j]);
+    }
   }
 
-  // Behandle Streaming-Response, falls gewünscht
-  if (useStreaming) {
-    return handleStreamingResponse(
-      originalJourney,
-      splitPoints,
-      bahnCard,
-      hasDeutschlandTicket,
-      passengerAge,
-      travelClass
+  if (VERBOSE)
+    console.log(
+      `\n🔍 Multi-Split-Analyse: ${nodes.length} Knoten, ${pairs.length} Teilstrecken`
     );
+
+  const segments = new Map<string, VendoJourney>();
+
+  for (let p = 0; p < pairs.length; p++) {
+    const [i, j] = pairs[p];
+    const from = nodes[i];
+    const to = nodes[j];
+
+    context.signal?.throwIfAborted();
+    if (
+      !hasBudgetFor(context, callsPerMultiSplitPair(context), pairs.length - p)
+    ) {
+      break;
+    }
+
+    onProgress?.({
+      checked: p,
+      total: pairs.length,
+      message: `Prüfe ${from.station.name} → ${to.station.name}...`,
+      currentStation: from.station.name,
+    });
+
+    try {
+      const journey = await fetchSegmentJourney(
+        from.station.id,
+        to.station.id,
+        new Date(from.departure ?? ""),
+        context,
+        "MULTI_SPLIT_SEGMENT",
+        `${from.station.name} → ${to.station.name}`
+      );
+
+      if (
+        journey &&
+        (journey.price?.amount || isDeutschlandTicketSegment(journey))
+      ) {
+        segments.set(`${i}-${j}`, journey);
+      }
+    } catch (error) {
+      rethrowIfFatal(error, context);
+      const typedError = error as { message?: string };
+      if (VERBOSE)
+        console.log(
+          `❌ ${from.station.name} → ${to.station.name}:`,
+          typedError.message || "error"
+        );
+    }
   }
 
-  // Baue die Abfrageoptionen basierend auf den übergebenen Parametern wie bahnCard, db-ticket usw.
-  const queryOptions = buildQueryOptions({
-    bahnCard,
-    hasDeutschlandTicket,
-    passengerAge,
-    travelClass,
-  });
+  context.signal?.throwIfAborted();
 
-  // Speichert den Originalpreis der Reise, um ihn später für die Einsparungsberechnung zu verwenden
-  const originalPrice = originalJourney.price?.amount || 0;
+  onProgress?.({
+    checked: pairs.length,
+    total: pairs.length,
+    message: "Analyse abgeschlossen",
+  });
 
-  const splitOptions = await analyzeSplitPoints(
-    originalJourney,
-    splitPoints,
-    queryOptions,
+  const splitOptions = buildMultiSplitOptions(
+    nodes,
+    segments,
     originalPrice
+  ).filter((option) =>
+    meetsSavingsThresholds(option, context.savingsThresholds)
   );
+  for (const option of splitOptions) {
+    onOption?.(option);
+  }
 
-  console.log(
-    `\n✅ SPLIT ANALYSIS COMPLETED - Total API calls: ${getApiCount()}\n`
+  return splitOptions;
+}
+
+function buildMultiSplitOptions(
+  nodes: MultiSplitNode[],
+  segments: Map<string, VendoJourney>,
+  originalPrice: number
+) {
+  // Kürzeste-Wege-Suche über den DAG der Teilstrecken. Zustand k ist die Anzahl
+  // der Splits (0, 1, 2 = "zwei oder mehr"), damit die günstigste Kette mit
+  // mindestens zwei Splits auch gefunden wird, wenn ein Einzelsplit billiger ist.
+  const best = nodes.map(() =>
+    [0, 1, 2].map(() => ({ cost: Infinity, prev: -1, prevK: -1 }))
   );
+  best[0][0].cost = 0;
 
-  // Gibt die Ergebnisse als JSON zurück
-  return c.json({
-    success: true,
-    splitOptions: splitOptions.sort((a, b) => b.savings - a.savings),
-    originalPrice,
-  });
-};
+  const destinationIndex = nodes.length - 1;
 
-splitJourney.post("/", async (c) => {
-  return await apiErrorHandler(() => handler(c));
-});
+  for (let j = 1; j < nodes.length; j++) {
+    for (let i = 0; i < j; i++) {
+      const segment = segments.get(`${i}-${j}`);
+      if (!segment) continue;
+      const price = segment.price?.amount || 0;
+
+      for (let k = 0; k < 3; k++) {
+        if (best[i][k].cost === Infinity) continue;
+        const nextK = j === destinationIndex ? k : Math.min(k + 1, 2);
+        const cost = best[i][k].cost + price;
+        if (cost < best[j][nextK].cost) {
+          best[j][nextK] = { cost, prev: i, prevK: k };
+        }
+      }
+    }
+  }
+
+  // Einzelsplits ergeben sich ohne weitere Abfragen direkt aus der Preismatrix
+  const splitOptions: SplitResult[] = [];
+  for (let s = 1; s < destinationIndex; s++) {
+    const first = segments.get(`0-${s}`);
+    const second = segments.get(`${s}-${destinationIndex}`);
+    if (!first || !second) continue;
+    const totalPrice = (first.price?.amount || 0) + (second.price?.amount || 0);
+    if (totalPrice < originalPrice) {
+      splitOptions.push(
+        createSplitResult(
+          "single",
+          [nodes[s].station],
+          [first, second],
+          totalPrice,
+          originalPrice,
+          nodes[s].trainLine
+        )
+      );
+    }
+  }
+
+  const multiBest = best[destinationIndex][2];
+
+  if (multiBest.cost === Infinity || multiBest.cost >= originalPrice) {
+    return splitOptions;
+  }
+
+  // Kette rückwärts rekonstruieren
+  const chain: number[] = [destinationIndex];
+  let node = destinationIndex;
+  let k = 2;
+  while (node !== 0) {
+    const step = best[node][k];
+    node = step.prev;
+    k = step.prevK;
+    chain.unshift(node);
+  }
+
+  const chainSegments = chain
+    .slice(1)
+    .flatMap((j, idx) => segments.get(`${chain[idx]}-${j}`) ?? []);
+  const splitStations = chain.slice(1, -1).map((idx) => nodes[idx].station);
+
+  splitOptions.push(
+    createSplitResult(
+      "multi",
+      splitStations,
+      chainSegments,
+      multiBest.cost,
+      originalPrice,
+      nodes[chain[1]].trainLine
+    )
+  );
+
+  if (VERBOSE)
+    console.log(
+      `✅ Multi-Split über ${splitStations.map((s) => s.name).join(", ")}: €${multiBest.cost}`
+    );
+
+  return splitOptions;
+}
+
+function createSplitResult(
+  type: string,
+  splitStations: unknown,
+  segments: VendoJourney[],
+  totalPrice: number,
+  originalPrice: number,
+  trainLine?: TrainLine,
+  crossTrain?: { extraTravelMinutes: number }
+) {
+  const savings = originalPrice - totalPrice;
+  const travellerPrices = sumTravellerPrices(segments);
+  // Vom Deutschland-Ticket abgedeckte Teilstücke brauchen kein eigenes Ticket
+  const tickets = segments.filter((s) => !isDeutschlandTicketSegment(s));
+
+  return {
+    type: `${crossTrain ? "cross-train" : "same-train"}-${type}-split`,
+    splitStations,
+    segments,
+    totalPrice,
+    originalPrice,
+    savings,
+    savingsPercentage: ((savings / originalPrice) * 100).toFixed(1),
+    extraTickets: Math.max(tickets.length - 1, 0),
+    ...(crossTrain && { extraTravelMinutes: crossTrain.extraTravelMinutes }),
+    ...(travellerPrices && { travellerPrices }),
+    trainInfo: {
+      line: trainLine?.name || "Unknown",
+      product: trainLine?.product || "Unknown",
+    },
+  };
+}
+
+// Ersparnis abzüglich des Aufwands für zusätzliche Tickets
+function netBenefit(option: SplitResult, thresholds: SavingsThresholds) {
+  return (
+    Math.round(
+      (option.savings - option.extraTickets * thresholds.extraTicketPenalty) *
+        100
+    ) / 100
+  );
+}
+
+function meetsSavingsThresholds(
+  option: SplitResult,
+  thresholds: SavingsThresholds
+) {
+  return (
+    netBenefit(option, thresholds) > 0 &&
+    option.savings >= thresholds.minSavingsEuro &&
+    (option.savings / option.originalPrice) * 100 >=
+      thresholds.minSavingsPercent
+  );
+}
+
+function isSameDeparture(journey: VendoJourney, targetDeparture: Date) {
+  return (
+    Math.abs(
+      new Date(journey.legs[0].departure).getTime() -
+        targetDeparture.getTime()
+    ) <= TIME_TOLERANCE_MS
+  );
+}
+
+function findMatchingJourney(
+  journeys: readonly VendoJourney[],
+  targetDeparture: Date
+) {
+  if (!journeys?.length) return null;
+  return journeys.find((j) => isSameDeparture(j, targetDeparture)) || null;
+}
+
+// Günstigste Anschlussverbindung ab dem Split-Bahnhof: gleicher Zug oder ein
+// späterer Zug, der das Ziel höchstens maxArrivalDelayMinutes später erreicht.
+// Vom Deutschland-Ticket abgedeckte Verbindungen (Preis 0) zählen mit.
+function findFollowUpJourney(
+  journeys: readonly VendoJourney[],
+  firstJourney: VendoJourney,
+  splitDeparture: Date,
+  originalArrival: Date,
+  { maxArrivalDelayMinutes }: CrossTrainOptions
+) {
+  const firstArrival = new Date(
+    firstJourney.legs[firstJourney.legs.length - 1].arrival
+  ).getTime();
+  const latestArrival =
+    originalArrival.getTime() + maxArrivalDelayMinutes * 60_000;
+
+  const candidates = journeys.filter((j) => {
+    if (!j.legs.length) return false;
+    if (!j.price?.amount && !isDeutschlandTicketSegment(j)) return false;
+    if (isSameDeparture(j, splitDeparture)) return true;
+    const departure = new Date(j.legs[0].departure).getTime();
+    const arrival = new Date(j.legs[j.legs.length - 1].arrival).getTime();
+    return (
+      departure >= firstArrival + MIN_TRANSFER_MS && arrival <= latestArrival
+    );
+  });
+
+  if (!candidates.length) return null;
+
+  return candidates.reduce((cheapest, j) =>
+    (j.price?.amount || 0) < (cheapest.price?.amount || 0) ? j : cheapest
+  );
+}
+
+// Multi-Split prüft alle Teilstrecken-Paare und enthält die Einzelsplits bereits
+async function runSplitAnalysis(
+  originalJourney: VendoJourney,
+  splitPoints: SplitPoint[],
+  context: SplitContext,
+  originalPrice: number,
+  { useMultiSplit, crossTrain }: SplitAnalysisOptions,
+  { onProgress, onOption, onSkipped }: SplitAnalysisCallbacks = {}
+) {
+  if (useMultiSplit) {
+    return analyzeMultiSplit(
+      originalJourney,
+      splitPoints,
+      context,
+      originalPrice,
+      { onProgress, onOption, onSkipped }
+    );
+  }
+
+  // Mit Budget die vielversprechendsten Stationen zuerst, sonst die
+  // Wechselpunkte der Deutschland-Ticket-Abdeckung zuerst prüfen
+  const prioritizedSplitPoints = context.budget
+    ? rankSplitPoints(originalJourney, splitPoints)
+    : [
+        ...splitPoints.filter((sp) => sp.coverageBoundary),
+        ...splitPoints.filter((sp) => !sp.coverageBoundary),
+      ];
+
+  // Erfahrungswerte der Strecke haben Vorrang vor der Heuristik
+  const learned = await applyLearnedStats(
+    originalJourney,
+    prioritizedSplitPoints,
+    context,
+    crossTrain
+  );
+  if (learned.pruned.length > 0) {
+    onSkipped?.(learned.pruned, "history");
+  }
+
+  return analyzeSplitPoints(
+    originalJourney,
+    learned.splitPoints,
+    context,
+    originalPrice,
+    {
+      onProgress,
+      onOption,
+      onSkipped,
+      batchSize: onProgress ? 1 : DEFAULT_BATCH_SIZE,
+      crossTrain,
+    }
+  );
+}
+
+// Eine zu analysierende Fahrt (Hinfahrt oder Rückfahrt)
+interface PreparedJourney {
+  originalJourney: VendoJourney;
+  splitPoints: SplitPoint[];
+  originalPrice: number;
+}
+
+interface PreparedSplitRequest extends PreparedJourney {
+  queryOptions: QueryOptions;
+  analysisOptions: SplitAnalysisOptions;
+  travellers?: Traveller[];
+  // Optionale Rückfahrt, wird mit gemeinsamem Upstream-Budget analysiert
+  returnTrip?: PreparedJourney;
+  // Andere Züge ± Minuten um die gewählte Abfahrt mit prüfen
+  departureWindowMinutes?: number;
+  // Obergrenze für Live-Abfragen der gesamten Anfrage
+  maxUpstreamCalls?: number;
+  savingsThresholds: SavingsThresholds;
+}
+
+// Validiert eine Fahrt und leitet Split-Kandidaten und Originalpreis ab
+function prepareJourney(
+  input: unknown,
+  field: string,
+  hasDeutschlandTicket: boolean,
+  travellers?: Traveller[]
+): PreparedJourney | { error: Record<string, unknown> } {
+  // Validate journey with schema
+  const validation = validatedVendoJourneySchema.safeParse(input);
+
+  if (!validation.success) {
+    return {
+      error: {
+        error: `Invalid ${field}: missing required station IDs or journey structure`,
+        details: validation.error.issues,
+      },
+    };
+  }
+
+  const journey = input as VendoJourney;
+
+  // Reisegruppe: der Originalpreis muss für dieselben Reisenden gelten
+  if (travellers && !isPricedForTravellers(journey, travellers)) {
+    return {
+      error: {
+        error: `${field} is not priced for these travellers; search it via /api/journeys with the same travellers`,
+      },
+    };
+  }
+
+  return {
+    originalJourney: journey,
+    // Split-Kandidaten aus vorhandenen Legs ableiten (keine zusätzlichen API Calls)
+    splitPoints: extractSplitPoints(journey, hasDeutschlandTicket),
+    // Speichert den Originalpreis der Reise, um ihn später für die Einsparungsberechnung zu verwenden
+    originalPrice: journey.price?.amount || 0,
+  };
+}
+
+// Validiert die Anfrage und leitet Split-Kandidaten und Abfrageoptionen ab
+function prepareSplitRequest(
+  body: Record<string, unknown>
+): PreparedSplitRequest | { error: Record<string, unknown> } {
+  // Übergebene Daten aus der Anfrage extrahieren
+  const {
+    originalJourney,
+    bahnCard,
+    hasDeutschlandTicket,
+    passengerAge,
+    travelClass,
+    useMultiSplit,
+    allowTrainChange,
+    maxArrivalDelayMinutes,
+    travellers: travellersInput,
+    returnJourney,
+    departureWindow,
+    maxUpstreamCalls,
+    minSavingsEuro,
+    minSavingsPercent,
+    extraTicketPenalty,
+  } = body;
+
+  // Schwellen und Ticket-Abzug: nicht-negative Zahlen, Prozent höchstens 100
+  for (const [field, value] of Object.entries({
+    minSavingsEuro,
+    minSavingsPercent,
+    extraTicketPenalty,
+  })) {
+    if (
+      value !== undefined &&
+      (typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        value < 0 ||
+        (field === "minSavingsPercent" && value > 100))
+    ) {
+      return {
+        error: {
+          error: `Invalid ${field}: expected a non-negative number${field === "minSavingsPercent" ? " up to 100" : ""}`,
+        },
+      };
+    }
+  }
+
+  if (
+    maxArrivalDelayMinutes !== undefined &&
+    (typeof maxArrivalDelayMinutes !== "number" ||
+      !Number.isFinite(maxArrivalDelayMinutes) ||
+      maxArrivalDelayMinutes < 0)
+  ) {
+    return {
+      error: {
+        error:
+          "Invalid maxArrivalDelayMinutes: expected a non-negative number of minutes",
+      },
+    };
+  }
+
+  if (
+    maxUpstreamCalls !== undefined &&
+    (typeof maxUpstreamCalls !== "number" ||
+      !Number.isInteger(maxUpstreamCalls) ||
+      maxUpstreamCalls < 1 ||
+      maxUpstreamCalls > MAX_UPSTREAM_CALLS_LIMIT)
+  ) {
+    return {
+      error: {
+        error: `Invalid maxUpstreamCalls: expected an integer between 1 and ${MAX_UPSTREAM_CALLS_LIMIT}`,
+      },
+    };
+  }
+
+  const departureWindowValidation = z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_DEPARTURE_WINDOW_MINUTES)
+    .optional()
+    .safeParse(departureWindow);
+  if (!departureWindowValidation.success) {
+    return {
+      error: {
+        error: `Invalid departureWindow: expected whole minutes between 1 and ${MAX_DEPARTURE_WINDOW_MINUTES}`,
+      },
+    };
+  }
+
+  if (departureWindow !== undefined && returnJourney !== undefined) {
+    return {
+      error: {
+        error: "departureWindow cannot be combined with returnJourney",
+      },
+    };
+  }
+
+  let travellers: Traveller[] | undefined;
+  if (travellersInput !== undefined) {
+    const travellersValidation = travellersSchema.safeParse(travellersInput);
+    if (!travellersValidation.success) {
+      return {
+        error: {
+          error:
+            "Invalid travellers: expected an array of { age, bahnCard, travelClass }",
+          details: travellersValidation.error.issues,
+        },
+      };
+    }
+    travellers = travellersValidation.data;
+  }
+
+  const outbound = prepareJourney(
+    originalJourney,
+    "originalJourney",
+    Boolean(hasDeutschlandTicket),
+    travellers
+  );
+  if ("error" in outbound) {
+    return outbound;
+  }
+
+  let returnTrip: PreparedJourney | undefined;
+  if (returnJourney !== undefined) {
+    const prepared = prepareJourney(
+      returnJourney,
+      "returnJourney",
+      Boolean(hasDeutschlandTicket),
+      travellers
+    );
+    if ("error" in prepared) {
+      return prepared;
+    }
+    returnTrip = prepared;
+  }
+
+  // Baue die Abfrageoptionen basierend auf den übergebenen Parametern wie bahnCard, db-ticket usw.
+  const queryOptions = buildQueryOptions({
+    bahnCard: bahnCard as string,
+    hasDeutschlandTicket: Boolean(hasDeutschlandTicket),
+    passengerAge,
+    travelClass: travelClass as string | undefined,
+  });
+
+  return {
+    ...outbound,
+    queryOptions,
+    travellers,
+    returnTrip,
+    departureWindowMinutes: departureWindowValidation.data,
+    maxUpstreamCalls,
+    savingsThresholds: {
+      minSavingsEuro:
+        (minSavingsEuro as number | undefined) ??
+        DEFAULT_SAVINGS_THRESHOLDS.minSavingsEuro,
+      minSavingsPercent:
+        (minSavingsPercent as number | undefined) ??
+        DEFAULT_SAVINGS_THRESHOLDS.minSavingsPercent,
+      extraTicketPenalty:
+        (extraTicketPenalty as number | undefined) ??
+        DEFAULT_SAVINGS_THRESHOLDS.extraTicketPenalty,
+    },
+    analysisOptions: {
+      useMultiSplit: Boolean(useMultiSplit),
+      crossTrain: allowTrainChange
+        ? {
+            maxArrivalDelayMinutes:
+              (maxArrivalDelayMinutes as number | undefined) ??
+              DEFAULT_MAX_ARRIVAL_DELAY_MINUTES,
+          }
+        : undefined,
+    },
+  };
+}
+
+function createSplitContext(
+  client: TransportClient,
+  {
+    queryOptions,
+    travellers,
+    returnTrip,
+    departureWindowMinutes,
+    maxUpstreamCalls,
+    savingsThresholds,
+  }: PreparedSplitRequest,
+  signal?: AbortSignal
+): SplitContext {
+  const budgetLimit =
+    maxUpstreamCalls ??
+    (returnTrip
+      ? ROUND_TRIP_CALL_BUDGET
+      : departureWindowMinutes
+        ? DEPARTURE_WINDOW_CALL_BUDGET
+        : undefined);
+
+  return {
+    queryOptions,
+    savingsThresholds,
+    segmentStats: createSegmentCacheStats(),
+    caller: createUpstreamCaller("split-journey"),
+    client,
+    signal,
+    travellers: travellers && {
+      list: travellers,
+      groups: groupTravellers(travellers),
+    },
+    budget: budgetLimit ? createCallBudget(budgetLimit) : undefined,
+  };
+}
+
+// Anzahl der Split-Kandidaten über alle Richtungen
+function countSplitPoints({ splitPoints, returnTrip }: PreparedSplitRequest) {
+  return splitPoints.length + (returnTrip?.splitPoints.length ?? 0);
+}
+
+// Sortiert nach Nettonutzen; ohne Ticket-Abzug entspricht das der Ersparnis
+function sortByNetBenefit(
+  splitOptions: SplitResult[],
+  thresholds: SavingsThresholds
+) {
+  return splitOptions
+    .map((option) => ({
+      ...option,
+      netBenefit: netBenefit(option, thresholds),
+    }))
+    .sort((a, b) => b.netBenefit - a.netBenefit);
+}
+
+// Günstigste Kombination für Hin- und Rückfahrt. Lohnt sich ein Split nur in
+// einer Richtung, wird die andere zum Originalpreis gebucht (option: null).
+function buildRoundTripResult(
+  outbound: { originalPrice: number; splitOptions: SplitResult[] },
+  inbound: { originalPrice: number; splitOptions: SplitResult[] }
+) {
+  const direction = ({
+    originalPrice,
+    splitOptions,
+  }: {
+    originalPrice: number;
+    splitOptions: SplitResult[];
+  }) => {
+    const option =
+      splitOptions
+        .filter((o) => o.totalPrice < originalPrice)
+        .reduce<SplitResult | null>(
+          (best, o) => (!best || o.totalPrice < best.totalPrice ? o : best),
+          null
+        ) ?? null;
+
+    return {
+      originalPrice,
+      totalPrice: option ? option.totalPrice : originalPrice,
+      option,
+    };
+  };
+
+  const outboundResult = direction(outbound);
+  const returnResult = direction(inbound);
+  const originalPrice = outbound.originalPrice + inbound.originalPrice;
+  const totalPrice = outboundResult.totalPrice + returnResult.totalPrice;
+  const savings = originalPrice - totalPrice;
+
+  return {
+    originalPrice,
+    totalPrice,
+    savings,
+    savingsPercentage: originalPrice
+      ? ((savings / originalPrice) * 100).toFixed(1)
+      : "0.0",
+    outbound: outboundResult,
+    return: returnResult,
+  };
+}
+
+// Listet die Züge zwischen Start und Ziel im Zeitfenster um die gewählte
+// Abfahrt (ohne den gewählten Zug), günstigste zuerst
+async function findDepartureWindowTrains(
+  originalJourney: VendoJourney,
+  windowMinutes: number,
+  context: SplitContext
+) {
+  const firstLeg = originalJourney.legs[0];
+  const lastLeg = originalJourney.legs[originalJourney.legs.length - 1];
+  const originId = firstLeg.origin?.id ?? "";
+  const destinationId = lastLeg.destination?.id ?? "";
+  const originalDeparture = new Date(firstLeg.departure).getTime();
+  const windowStart = Math.max(
+    Date.now(),
+    originalDeparture - windowMinutes * 60_000
+  );
+  const windowEnd = originalDeparture + windowMinutes * 60_000;
+  const originalSignature = journeySignature(originalJourney);
+
+  const trains = new Map<string, VendoJourney>();
+  let cursor = windowStart;
+
+  for (
+    let page = 0;
+    page < DEPARTURE_WINDOW_MAX_PAGES && cursor <= windowEnd;
+    page++
+  ) {
+    context.signal?.throwIfAborted();
+    if (context.budget?.exhausted()) break;
+
+    const journeys = await fetchSegmentJourneys(
+      originId,
+      destinationId,
+      new Date(cursor),
+      {
+        ...context,
+        queryOptions: {
+          ...context.queryOptions,
+          results: DEPARTURE_WINDOW_RESULTS,
+        },
+      },
+      "DEPARTURE_WINDOW_SEARCH",
+      `${firstLeg.origin?.name} → ${lastLeg.destination?.name} ab ${new Date(cursor).toISOString()}`
+    );
+
+    let latestDeparture = cursor;
+    for (const journey of journeys) {
+      const departure = new Date(journey.legs[0].departure).getTime();
+      latestDeparture = Math.max(latestDeparture, departure);
+
+      if (
+        departure < windowStart ||
+        departure > windowEnd ||
+        !journey.price?.amount ||
+        journey.legs[0].origin?.id !== originId ||
+        journey.legs[journey.legs.length - 1].destination?.id !==
+          destinationId
+      ) {
+        continue;
+      }
+
+      const signature = journeySignature(journey);
+      if (signature !== originalSignature) {
+        trains.set(signature, journey);
+      }
+    }
+
+    // Nächste Seite ab der spätesten gefundenen Abfahrt
+    if (latestDeparture <= cursor) break;
+    cursor = latestDeparture + 60_000;
+  }
+
+  return {
+    from: new Date(windowStart).toISOString(),
+    to: new Date(windowEnd).toISOString(),
+    trains: [...trains.values()].sort(
+      (a, b) => (a.price?.amount || 0) - (b.price?.amount || 0)
+    ),
+  };
+}
+
+// Gewählter Zug und alternative Züge im Zeitfenster, nacheinander innerhalb
+// des Budgets analysiert. Die Rangliste vergleicht alles mit dem Preis des
+// gewählten Zuges, auch alternative Züge ohne Split.
+async function runDepartureWindowAnalysis(
+  prepared: PreparedSplitRequest,
+  windowMinutes: number,
+  context: SplitContext,
+  { onProgress, onOption, onSkipped }: SplitAnalysisCallbacks
+) {
+  const { originalJourney, originalPrice, analysisOptions } = prepared;
+
+  const window = await findDepartureWindowTrains(
+    originalJourney,
+    windowMinutes,
+    context
+  );
+
+  const trains = [
+    { journey: originalJourney, splitPoints: prepared.splitPoints },
+    ...window.trains.map((journey) => ({
+      journey,
+      splitPoints: extractSplitPoints(
+        journey,
+        Boolean(context.queryOptions.deutschlandTicketDiscount)
+      ),
+    })),
+  ];
+
+  const total = trains.reduce((sum, t) => sum + t.splitPoints.length, 0);
+  let checkedBefore = 0;
+  let splitOptions: SplitResult[] = [];
+  const ranked = [];
+  let analysed = 0;
+
+  for (const [index, { journey, splitPoints }] of trains.entries()) {
+    context.signal?.throwIfAborted();
+    if (index > 0 && context.budget?.exhausted()) break;
+
+    const sameTrain = index === 0;
+    const trainPrice = journey.price?.amount || 0;
+    const label = sameTrain
+      ? "Gewählter Zug"
+      : `Zug ab ${formatTime(journey.legs[0].departure)}`;
+
+    const options = sortByNetBenefit(
+      await runSplitAnalysis(
+        journey,
+        splitPoints,
+        context,
+        trainPrice,
+        analysisOptions,
+        {
+          onProgress:
+            onProgress &&
+            ((progress) =>
+              onProgress({
+                ...progress,
+                checked: checkedBefore + progress.checked,
+                total,
+                message: `${label}: ${progress.message}`,
+              })),
+          onOption: sameTrain ? onOption : undefined,
+          onSkipped:
+            onSkipped &&
+            ((skipped, reason) =>
+              onSkipped(skipped, reason, journey.legs[0].departure)),
+        }
+      ),
+      context.savingsThresholds
+    );
+    checkedBefore += splitPoints.length;
+    analysed++;
+
+    if (sameTrain) {
+      splitOptions = options;
+    }
+
+    const best = options[0] ?? null;
+    const totalPrice = best ? best.totalPrice : trainPrice;
+    const savings = originalPrice - totalPrice;
+    if (savings <= 0) continue;
+
+    ranked.push({
+      // "same": gewählter Zug, "different": anderer Zug im Zeitfenster
+      train: sameTrain ? "same" : "different",
+      departure: journey.legs[0].departure,
+      arrival: journey.legs[journey.legs.length - 1].arrival,
+      trainPrice,
+      totalPrice,
+      savings,
+      savingsPercentage: ((savings / originalPrice) * 100).toFixed(1),
+      // Ein anderer Zug ohne Split bleibt ein einzelnes Ticket
+      netBenefit: best
+        ? savings -
+          best.extraTickets * context.savingsThresholds.extraTicketPenalty
+        : savings,
+      split: best,
+      journey,
+    });
+  }
+
+  ranked.sort((a, b) => b.netBenefit - a.netBenefit);
+
+  return {
+    splitOptions,
+    departureWindow: {
+      minutes: windowMinutes,
+      from: window.from,
+      to: window.to,
+      trainsFound: trains.length,
+      trainsAnalysed: analysed,
+      trainsSkipped: trains.length - analysed,
+      options: ranked,
+    },
+  };
+}
+
+// Führt die Analyse einer Anfrage aus: nur Hinfahrt, Hin- und Rückfahrt
+// parallel mit gemeinsamem Caller und Budget oder ein Abfahrts-Zeitfenster
+async function runRequestAnalysis(
+  prepared: PreparedSplitRequest,
+  context: SplitContext,
+  { onProgress, onOption }: SplitAnalysisCallbacks = {}
+) {
+  const { returnTrip, analysisOptions, departureWindowMinutes } = prepared;
+
+  const skippedStations: {
+    id: string;
+    name?: string;
+    reason: SkipReason;
+    direction?: TripDirection;
+    departure?: string;
+  }[] = [];
+  const onSkipped =
+    (direction?: TripDirection) =>
+    (splitPoints: SplitPoint[], reason: SkipReason, departure?: string) => {
+      for (const { station } of splitPoints) {
+        skippedStations.push({
+          id: station.id,
+          name: station.name,
+          reason,
+          direction,
+          departure,
+        });
+      }
+    };
+
+  if (departureWindowMinutes) {
+    const result = await runDepartureWindowAnalysis(
+      prepared,
+      departureWindowMinutes,
+      context,
+      { onProgress, onOption, onSkipped: onSkipped() }
+    );
+    return { ...result, skippedStations };
+  }
+
+  if (!returnTrip) {
+    const splitOptions = await runSplitAnalysis(
+      prepared.originalJourney,
+      prepared.splitPoints,
+      context,
+      prepared.originalPrice,
+      analysisOptions,
+      { onProgress, onOption, onSkipped: onSkipped() }
+    );
+    return {
+      splitOptions: sortByNetBenefit(splitOptions, context.savingsThresholds),
+      skippedStations,
+    };
+  }
+
+  // Fortschritt beider Richtungen zusammenfassen
+  const progress: Record<TripDirection, ProgressInfo> = {
+    outbound: { checked: 0, total: prepared.splitPoints.length },
+    return: { checked: 0, total: returnTrip.splitPoints.length },
+  };
+
+  const analyze = (journey: PreparedJourney, direction: TripDirection) =>
+    runSplitAnalysis(
+      journey.originalJourney,
+      journey.splitPoints,
+      { ...context, budgetShare: 0.5 },
+      journey.originalPrice,
+      analysisOptions,
+      {
+        onProgress:
+          onProgress &&
+          ((directionProgress) => {
+            progress[direction] = directionProgress;
+            onProgress({
+              checked: progress.outbound.checked + progress.return.checked,
+              total: progress.outbound.total + progress.return.total,
+              message: `${direction === "outbound" ? "Hinfahrt" : "Rückfahrt"}: ${directionProgress.message}`,
+              currentStation: directionProgress.currentStation,
+              direction,
+            });
+          }),
+        onOption: onOption && ((option) => onOption(option, direction)),
+        onSkipped: onSkipped(direction),
+      }
+    );
+
+  const [outboundOptions, returnOptions] = await Promise.all([
+    analyze(prepared, "outbound"),
+    analyze(returnTrip, "return"),
+  ]);
+
+  const splitOptions = sortByNetBenefit(
+    outboundOptions,
+    context.savingsThresholds
+  );
+  const returnSplitOptions = sortByNetBenefit(
+    returnOptions,
+    context.savingsThresholds
+  );
+
+  return {
+    splitOptions,
+    returnSplitOptions,
+    skippedStations,
+    roundTrip: buildRoundTripResult(
+      { originalPrice: prepared.originalPrice, splitOptions },
+      {
+        originalPrice: returnTrip.originalPrice,
+        splitOptions: returnSplitOptions,
+      }
+    ),
+  };
+}
+
+// Zusätzliche Antwortfelder für Budget, Hin- und Rückfahrt bzw. Zeitfenster
+function analysisResultFields(
+  prepared: PreparedSplitRequest,
+  context: SplitContext,
+  result: Awaited<ReturnType<typeof runRequestAnalysis>>
+) {
+  const budgetFields = {
+    ...(context.budget && {
+      upstreamBudget: {
+        limit: context.budget.limit,
+        used: context.budget.used,
+      },
+    }),
+    ...("skippedStations" in result &&
+      result.skippedStations.length > 0 && {
+        skippedStations: result.skippedStations,
+      }),
+  };
+
+  if ("departureWindow" in result) {
+    return { departureWindow: result.departureWindow, ...budgetFields };
+  }
+
+  if (!prepared.returnTrip || !("roundTrip" in result)) {
+    return budgetFields;
+  }
+
+  return {
+    returnSplitOptions: result.returnSplitOptions,
+    returnOriginalPrice: prepared.returnTrip.originalPrice,
+    roundTrip: result.roundTrip,
+    ...budgetFields,
+  };
+}
+
+// Streaming handler for real-time progress updates. Events are written to a
+// buffer, so the analysis continues while a client reconnects.
+function handleStreamingResponse(
+  client: TransportClient,
+  prepared: PreparedSplitRequest,
+  requestSignal: AbortSignal
+) {
+  // Ohne Client nach Ablauf der Wartezeit abbrechen, um Upstream-Budget zu sparen
+  const abortController = new AbortController();
+  const buffer = createEventBuffer(() =>
+    abortController.abort(new Error("Client disconnected"))
+  );
+  const context = createSplitContext(
+    client,
+    prepared,
+    abortController.signal
+  );
+  const finish = trackSplitAnalysis("stream");
+
+  const run = async () => {
+    try {
+      // Send initial progress
+      buffer.push("progress", {
+        type: "progress",
+        checked: 0,
+        total: countSplitPoints(prepared),
+        message: "Analyse gestartet...",
+      });
+
+      const onProgress = (progress: ProgressInfo) => {
+        buffer.push("progress", {
+          type: "progress",
+          checked: progress.checked,
+          total: progress.total,
+          message: progress.message,
+          currentStation: progress.currentStation,
+          direction: progress.direction,
+        });
+      };
+
+      const onOption = (option: SplitResult, direction?: TripDirection) => {
+        buffer.push("option", { type: "option", option, direction });
+      };
+
+      // Find split options with progress updates
+      const result = await runRequestAnalysis(prepared, context, {
+        onProgress,
+        onOption,
+      });
+
+      // Send final result
+      buffer.push("complete", {
+        type: "complete",
+        success: true,
+        splitOptions: result.splitOptions,
+        originalPrice: prepared.originalPrice,
+        ...analysisResultFields(prepared, context, result),
+        segmentCache: context.segmentStats,
+      });
+      finish("completed");
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        logCancelledAnalysis(`stream ${buffer.id}`, context);
+        finish("cancelled", context.caller.calls);
+        return;
+      }
+
+      const typedError = error as { message?: string };
+      finish("failed");
+
+      buffer.push("error", {
+        type: "error",
+        error: typedError.message || "Failed to analyze split journeys",
+      });
+    } finally {
+      buffer.close();
+    }
+  };
+
+  // Nicht awaiten: die Analyse läuft unabhängig von der Verbindung
+  void run();
+
+  return createSseResponse(buffer, 0, requestSignal);
+}
+
+// Setzt einen unterbrochenen Stream ab der letzten empfangenen Event-ID fort
+function resumeStreamingResponse(
+  streamId: string,
+  lastSeq: number,
+  requestSignal: AbortSignal
+) {
+  const buffer = getEventBuffer(streamId);
+  return buffer ? createSseResponse(buffer, lastSeq, requestSignal) : null;
+}
+
+function logCancelledAnalysis(label: string, context: SplitContext) {
+  console.log(
+    `🛑 Split analysis (${label}) cancelled after ${context.caller.calls} API calls: ${
+      (context.signal?.reason as { message?: string } | undefined)?.message ||
+      "aborted"
+    }`
+  );
+}
+
+// Für Kalender und Karte genügen die Teilstücke einer Option
+type ExportOption = { segments: VendoJourney[] };
+
+// Exportformate einer einzelnen Split-Option
+type ExportFormat = "ics" | "geojson";
+
+function isExportFormat(format: unknown): format is ExportFormat {
+  return format === "ics" || format === "geojson";
+}
+
+// Index der Option für den Export, Standard: beste Option
+function parseOptionIndex(value: unknown) {
+  if (value === undefined) return 0;
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 ? index : null;
+}
+
+// .ics- oder GeoJSON-Antwort für eine Split-Option, bei Hin- und Rückfahrt
+// zusammen mit der besten Option der Rückfahrt (sofern sich dort ein Split lohnt)
+async function splitExportResponse(
+  c: Context,
+  format: ExportFormat,
+  splitOptions: ExportOption[],
+  optionIndex: number,
+  returnOption?: ExportOption | null
+) {
+  const option = splitOptions[optionIndex];
+  if (!option) {
+    return c.json(
+      { error: `No split option at index ${optionIndex} to export` },
+      404
+    );
+  }
+
+  const itineraries = [option, ...(returnOption ? [returnOption] : [])].map(
+    ({ segments }) => ({ segments })
+  );
+
+  if (format === "geojson") {
+    // Koordinaten aus dem Offline-Datensatz, keine weiteren Upstream-Aufrufe
+    return c.json(
+      createItineraryGeoJson(itineraries, await getStationIndex()),
+      200,
+      { "Content-Type": "application/geo+json" }
+    );
+  }
+
+  return c.body(
+    createItineraryCalendar(itineraries),
+    200,
+    calendarHeaders("betterbahn-split.ics")
+  );
+}
+
+// POST-Route für Split-Journey Analyse
+const handler = async (c: Context, client: TransportClient) => {
+  // Reconnect eines Streams: fehlende Events nachliefern statt neu zu starten
+  const lastEventId = parseLastEventId(c.req.header("Last-Event-ID"));
+  if (lastEventId) {
+    const resumed = resumeStreamingResponse(
+      lastEventId.streamId,
+      lastEventId.seq,
+      c.req.raw.signal
+    );
+    if (resumed) return resumed;
+  }
+
+  const body = await c.req.json();
+  const prepared = prepareSplitRequest(body);
+
+  if ("error" in prepared) {
+    return c.json(prepared.error, 400);
+  }
+
+  // format: "ics" bzw. "geojson" liefert die gewählte Option (option,
+  // Standard 0) als Kalender bzw. Karte
+  const format = body.format ?? "json";
+  const optionIndex = parseOptionIndex(body.option);
+  if (format !== "json" && !isExportFormat(format)) {
+    return c.json(
+      { error: "Invalid format: expected json, ics or geojson" },
+      400
+    );
+  }
+  if (isExportFormat(format) && (body.useStreaming || optionIndex === null)) {
+    return c.json(
+      {
+        error: body.useStreaming
+          ? `format ${format} is not available for streaming responses`
+          : "Invalid option: expected a non-negative integer",
+      },
+      400
+    );
+  }
+
+  if (countSplitPoints(prepared) === 0) {
+    return c.json({
+      success: true,
+      splitOptions: [],
+      message: "No split points found",
+    });
+  }
+
+  // Behandle Streaming-Response, falls gewünscht
+  if (body.useStreaming) {
+    return handleStreamingResponse(client, prepared, c.req.raw.signal);
+  }
+
+  // Bricht der Client die Anfrage ab, werden keine weiteren Teilstrecken geprüft
+  const context = createSplitContext(client, prepared, c.req.raw.signal);
+  const finish = trackSplitAnalysis("json");
+
+  let result: Awaited<ReturnType<typeof runRequestAnalysis>>;
+  try {
+    result = await runRequestAnalysis(prepared, context);
+  } catch (error) {
+    if (c.req.raw.signal.aborted) {
+      logCancelledAnalysis("json", context);
+      finish("cancelled", context.caller.calls);
+      // 499: Client Closed Request, die Antwort erreicht niemanden mehr
+      return new Response(null, { status: 499 });
+    }
+    finish("failed");
+    throw error;
+  }
+  finish("completed");
+
+  console.log(
+    `\n✅ SPLIT ANALYSIS COMPLETED - Total API calls: ${context.caller.calls}\n`
+  );
+  console.log(
+    `Segments: ${context.segmentStats.cached} from cache, ${context.segmentStats.live} fetched live`
+  );
+
+  if (isExportFormat(format)) {
+    return splitExportResponse(
+      c,
+      format,
+      result.splitOptions,
+      optionIndex ?? 0,
+      "roundTrip" in result ? result.roundTrip?.return.option : undefined
+    );
+  }
+
+  // Gibt die Ergebnisse als JSON zurück
+  return c.json({
+    success: true,
+    splitOptions: result.splitOptions,
+    originalPrice: prepared.originalPrice,
+    ...analysisResultFields(prepared, context, result),
+    segmentCache: context.segmentStats,
+  });
+};
+
+// Laufende Jobs dieser Instanz, um Abbrüche sofort durchzureichen
+const runningJobs = new Map<string, AbortController>();
+
+// Führt eine Analyse im Hintergrund aus und schreibt Fortschritt in den Job-Store
+async function runSplitJob(
+  jobId: string,
+  client: TransportClient,
+  prepared: PreparedSplitRequest
+) {
+  const abortController = new AbortController();
+  runningJobs.set(jobId, abortController);
+
+  const partialOptions: Record<TripDirection, SplitResult[]> = {
+    outbound: [],
+    return: [],
+  };
+  const finish = trackSplitAnalysis("job");
+
+  // Updates nacheinander schreiben, damit der Fortschritt nie zurückspringt
+  let pendingWrite = Promise.resolve();
+  const persist = (patch: Parameters<typeof updateSplitJob>[1]) => {
+    pendingWrite = pendingWrite
+      .then(async () => {
+        const job = await updateSplitJob(jobId, patch);
+        // Abbruch kann auch über eine andere Instanz erfolgt sein
+        if (job?.status === "cancelled")
+          abortController.abort(new Error("Job cancelled"));
+      })
+      .catch((error) =>
+        console.error(`Failed to update split job ${jobId}:`, error)
+      );
+  };
+
+  persist({ status: "running" });
+
+  const context = createSplitContext(
+    client,
+    prepared,
+    abortController.signal
+  );
+
+  try {
+    const result = await runRequestAnalysis(prepared, context, {
+      onProgress: (progress) =>
+        persist({
+          progress,
+          splitOptions: [...partialOptions.outbound],
+          ...(prepared.returnTrip && {
+            returnSplitOptions: [...partialOptions.return],
+          }),
+        }),
+      onOption: (option, direction = "outbound") =>
+        partialOptions[direction].push(option),
+    });
+
+    const total = countSplitPoints(prepared);
+    persist({
+      status: "completed",
+      progress: {
+        checked: total,
+        total,
+        message: "Analyse abgeschlossen",
+      },
+      splitOptions: result.splitOptions,
+      ...analysisResultFields(prepared, context, result),
+    });
+    finish("completed");
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      logCancelledAnalysis(`job ${jobId}`, context);
+      finish("cancelled", context.caller.calls);
+    } else {
+      finish("failed");
+      const typedError = error as { message?: string };
+      persist({
+        status: "failed",
+        error: typedError.message || "Failed to analyze split journeys",
+      });
+    }
+  } finally {
+    runningJobs.delete(jobId);
+    await pendingWrite;
+  }
+}
+
+// POST-Route: Analyse als Job starten
+const createJobHandler = async (c: Context, client: TransportClient) => {
+  const prepared = prepareSplitRequest(await c.req.json());
+
+  if ("error" in prepared) {
+    return c.json(prepared.error, 400);
+  }
+
+  if (countSplitPoints(prepared) === 0) {
+    return c.json({
+      success: true,
+      splitOptions: [],
+      message: "No split points found",
+    });
+  }
+
+  const job = await createSplitJob(
+    countSplitPoints(prepared),
+    prepared.originalPrice
+  );
+
+  // Nicht awaiten: der Job läuft unabhängig von dieser Verbindung weiter
+  void runSplitJob(job.id, client, prepared);
+
+  return c.json(
+    {
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      progress: job.progress,
+    },
+    202
+  );
+};
+
+// GET-Route zum Fortsetzen, z.B. für EventSource-Clients
+const streamHandler = async (c: Context) => {
+  const lastEventId = parseLastEventId(c.req.header("Last-Event-ID"));
+  const resumed = resumeStreamingResponse(
+    c.req.param("id"),
+    lastEventId?.streamId === c.req.param("id") ? lastEventId.seq : 0,
+    c.req.raw.signal
+  );
+
+  if (!resumed) {
+    return c.json({ error: "Split stream not found or expired" }, 404);
+  }
+
+  return resumed;
+};
+
+const getJobHandler = async (c: Context) => {
+  const job = await getSplitJob(c.req.param("id"));
+
+  if (!job) {
+    return c.json({ error: "Split job not found" }, 404);
+  }
+
+  // Kalender- bzw. Karten-Export der gewählten Option eines abgeschlossenen Jobs
+  const format = c.req.query("format");
+  if (isExportFormat(format)) {
+    const optionIndex = parseOptionIndex(c.req.query("option"));
+    if (optionIndex === null) {
+      return c.json(
+        { error: "Invalid option: expected a non-negative integer" },
+        400
+      );
+    }
+    if (job.status !== "completed") {
+      return c.json({ error: "Split job is not completed yet" }, 409);
+    }
+
+    const roundTrip = job.roundTrip as
+      | { return?: { option?: ExportOption | null } }
+      | undefined;
+    return splitExportResponse(
+      c,
+      format,
+      job.splitOptions as ExportOption[],
+      optionIndex,
+      roundTrip?.return?.option
+    );
+  }
+
+  return c.json({ success: true, job });
+};
+
+const cancelJobHandler = async (c: Context) => {
+  const id = c.req.param("id");
+  const job = await cancelSplitJob(id);
+
+  if (!job) {
+    return c.json({ error: "Split job not found" }, 404);
+  }
+
+  runningJobs.get(id)?.abort(new Error("Job cancelled"));
+
+  return c.json({ success: true, job });
+};
+
+const createSplitJourneyRoute = (client: TransportClient) => {
+  const splitJourney = new Hono();
+
+  splitJourney.post("/", async (c) => {
+    return await apiErrorHandler(() => handler(c, client));
+  });
+
+  splitJourney.get("/stream/:id", async (c) => {
+    return await apiErrorHandler(
+      () => streamHandler(c),
+      "/api/split-journey/stream/:id"
+    );
+  });
+
+  splitJourney.post("/jobs", async (c) => {
+    return await apiErrorHandler(
+      () => createJobHandler(c, client),
+      "/api/split-journey/jobs"
+    );
+  });
+
+  splitJourney.get("/jobs/:id", async (c) => {
+    return await apiErrorHandler(
+      () => getJobHandler(c),
+      "/api/split-journey/jobs/:id"
+    );
+  });
+
+  splitJourney.delete("/jobs/:id", async (c) => {
+    return await apiErrorHandler(
+      () => cancelJobHandler(c),
+      "/api/split-journey/jobs/:id"
+    );
+  });
+
+  return splitJourney;
+};
 
-export { splitJourney };
+export { createSplitJourneyRoute };
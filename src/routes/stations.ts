@@ -0,0 +1,128 @@
+import { type Context, Hono } from "hono";
+import { apiErrorHandler } from "../lib/error-handler";
+import {
+  createRateLimitMiddleware,
+  DEFAULT_RATE_LIMITS,
+} from "../lib/ratelimit";
+import { findNearbyStations } from "../lib/station-grid";
+import { getStationIndex } from "../lib/station-index";
+import { searchStations } from "../lib/station-search";
+
+const DEFAULT_RESULTS = 10;
+const MAX_RESULTS = 50;
+
+// Umkreis in Metern
+const DEFAULT_RADIUS = 1000;
+const MAX_RADIUS = 20_000;
+
+const stations = new Hono();
+
+const parseLimit = (c: Context) => {
+  const limit = Number.parseInt(
+    c.req.query("limit") || `${DEFAULT_RESULTS}`,
+    10,
+  );
+  return Number.isNaN(limit) || limit < 1 || limit > MAX_RESULTS ? null : limit;
+};
+
+const invalidLimit = (c: Context) =>
+  c.json(
+    { error: `Invalid limit: expected a number from 1 to ${MAX_RESULTS}` },
+    400,
+  );
+
+// GET-Route für Stationssuche (Autocomplete), rein offline
+const searchHandler = async (c: Context) => {
+  const query = c.req.query("query")?.trim();
+
+  if (!query || query.length < 2) {
+    return c.json(
+      { error: "Missing or too short parameter: query (min. 2 characters)" },
+      400,
+    );
+  }
+
+  const limit = parseLimit(c);
+  if (limit === null) {
+    return invalidLimit(c);
+  }
+
+  const index = await getStationIndex();
+
+  return c.json({
+    success: true,
+    query,
+    stations: searchStations(index, query, limit),
+  });
+};
+
+// GET-Route für Stationen im Umkreis einer Position, rein offline
+const nearbyHandler = async (c: Context) => {
+  const latitude = Number.parseFloat(c.req.query("lat") ?? "");
+  const longitude = Number.parseFloat(c.req.query("lon") ?? "");
+
+  if (
+    Number.isNaN(latitude) ||
+    Number.isNaN(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return c.json(
+      {
+        error:
+          "Missing or invalid parameters: lat (-90 to 90) and lon (-180 to 180)",
+      },
+      400,
+    );
+  }
+
+  const radius = Number.parseFloat(
+    c.req.query("radius") || `${DEFAULT_RADIUS}`,
+  );
+  if (Number.isNaN(radius) || radius <= 0 || radius > MAX_RADIUS) {
+    return c.json(
+      {
+        error: `Invalid radius: expected meters, greater than 0 and up to ${MAX_RADIUS}`,
+      },
+      400,
+    );
+  }
+
+  const limit = parseLimit(c);
+  if (limit === null) {
+    return invalidLimit(c);
+  }
+
+  // Optional nur Stationen mit Fernverkehr (ICE/IC/EC)
+  const longDistanceOnly = c.req.query("longDistance") === "true";
+
+  const index = await getStationIndex();
+
+  return c.json({
+    success: true,
+    latitude,
+    longitude,
+    radius,
+    stations: findNearbyStations(index, latitude, longitude, {
+      radius,
+      limit,
+      longDistanceOnly,
+    }),
+  });
+};
+
+// Autocomplete feuert viele Anfragen, daher großzügigeres Limit
+const rateLimitMiddleware = createRateLimitMiddleware({
+  ...DEFAULT_RATE_LIMITS.LENIENT,
+  keyPrefix: "stations",
+});
+
+stations.get("/nearby", rateLimitMiddleware, async (c) => {
+  return await apiErrorHandler(() => nearbyHandler(c), "/api/stations/nearby");
+});
+
+stations.get("/", rateLimitMiddleware, async (c) => {
+  return await apiErrorHandler(() => searchHandler(c), "/api/stations");
+});
+
+export { stations };
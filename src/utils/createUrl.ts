@@ -51,7 +51,7 @@ function createStationId(station: Station): string {
 /**
  * Creates a urlParameter that encodes the available Bahncard
  * @param {number} travelClass - Travel class (1 or 2)
- * @param {string | null} bahnCard - Type of Bahncard ("25", "50", or null for none)
+ * @param {string | null} bahnCard - Type of Bahncard ("25", "50", "100", or null for none)
  * @returns {string} Encoded Bahncard parameter
  */
 function createBcParameter(
@@ -63,6 +63,8 @@ function createBcParameter(
       return `13:17:KLASSE_${travelClass}:1`;
     case "50":
       return `13:23:KLASSE_${travelClass}:1`;
+    case "100":
+      return `13:24:KLASSE_${travelClass}:1`;
     default:
       return "13:16:KLASSENLOS:1";
   }
@@ -73,7 +75,8 @@ function createBcParameter(
  * @param {Object} segment - Journey segment object
  * @param {number} travelClass - Travel class (1 or 2)
  * @param {boolean} hasDeutschlandTicket - Deutschlandticket
- * @param {string | null} bahnCard - Type of Bahncard ("25", "50", or null for none)
+ * @param {string | null} bahnCard - Type of Bahncard ("25", "50", "100", or null for none)
+ * @param {string[]} [warnings] - Collects a message for every dropped station ID
  * @returns {string} DB website search URL
  */
 export function createSegmentSearchUrl(
@@ -81,16 +84,13 @@ export function createSegmentSearchUrl(
   travelClass: number = 2,
   hasDeutschlandTicket: boolean,
   bahnCard: string | null,
+  warnings?: string[],
 ): string {
   if (!segment?.legs?.length)
     throw new Error("Invalid segment: missing legs data");
   const legs = segment.legs;
   const firstLeg = legs[0];
   const lastLeg = legs[legs.length - 1];
-  const cleanDate = formatDate(firstLeg.departure);
-  const bcParameter = createBcParameter(travelClass, bahnCard);
-
-  // Modern URL building with proper validation
 
   // Properly validate required data with explicit checks for optional properties
   if (
@@ -104,24 +104,62 @@ export function createSegmentSearchUrl(
     );
   }
 
+  return createStationSearchUrl(
+    firstLeg.origin,
+    lastLeg.destination,
+    firstLeg.departure,
+    travelClass,
+    hasDeutschlandTicket,
+    bahnCard,
+    warnings,
+  );
+}
+
+/**
+ * Creates a DB search URL for a station pair and departure time
+ * @param {Object} origin - Origin station with name and ID
+ * @param {Object} destination - Destination station with name and ID
+ * @param {string} departure - ISO departure date/time
+ * @param {number} travelClass - Travel class (1 or 2)
+ * @param {boolean} hasDeutschlandTicket - Deutschlandticket
+ * @param {string | null} bahnCard - Type of Bahncard ("25", "50", "100", or null for none)
+ * @param {string[]} [warnings] - Collects a message for every dropped station ID
+ * @returns {string} DB website search URL
+ */
+export function createStationSearchUrl(
+  origin: Station,
+  destination: Station,
+  departure: string,
+  travelClass: number = 2,
+  hasDeutschlandTicket: boolean,
+  bahnCard: string | null,
+  warnings?: string[],
+): string {
+  if (!origin.name || !destination.name) {
+    throw new Error("Missing origin or destination station name");
+  }
+
+  const cleanDate = formatDate(departure);
+  const bcParameter = createBcParameter(travelClass, bahnCard);
+
   const parts = [
     "sts=true",
-    `so=${encodeURIComponent(firstLeg.origin.name)}`,
-    `zo=${encodeURIComponent(lastLeg.destination.name)}`,
+    `so=${encodeURIComponent(origin.name)}`,
+    `zo=${encodeURIComponent(destination.name)}`,
     `kl=${travelClass}`,
     `r=${bcParameter}`,
   ];
 
-  const originId = addStationId(firstLeg.origin, "s", parts);
-  const destId = addStationId(lastLeg.destination, "z", parts);
+  const originId = addStationId(origin, "s", parts, warnings);
+  const destId = addStationId(destination, "z", parts, warnings);
 
   parts.push("sot=ST", "zot=ST");
 
-  if (originId && firstLeg.origin.name) {
+  if (originId) {
     parts.push(`soei=${originId}`);
   }
 
-  if (destId && lastLeg.destination.name) {
+  if (destId) {
     parts.push(`zoei=${destId}`);
   }
 
@@ -161,31 +199,41 @@ const PROBLEMATIC_STATION_IDS: Record<string, string> = {
  * Validates if a station ID should be used based on the station name
  * @param {string} stationId - The station ID
  * @param {string} stationName - The station name
+ * @param {string[]} [warnings] - Receives a message if the ID is dropped
  * @returns {boolean} - Whether the station ID is safe to use
  */
-function shouldUseStationId(stationId: string, stationName: string) {
+function shouldUseStationId(
+  stationId: string,
+  stationName: string,
+  warnings?: string[],
+) {
   if (!stationId || !stationName) return false;
   const problematicName = PROBLEMATIC_STATION_IDS[stationId];
   if (
     problematicName &&
     !stationName.toLowerCase().includes(problematicName.toLowerCase())
   ) {
-    console.warn(
-      `Skipping problematic station ID ${stationId} for ${stationName} (maps to ${problematicName})`,
-    );
+    const message = `Skipping problematic station ID ${stationId} for ${stationName} (maps to ${problematicName})`;
+    console.warn(message);
+    warnings?.push(message);
     return false;
   }
   return true;
 }
 
-function addStationId(station: Station, type: string, parts: string[]) {
+function addStationId(
+  station: Station,
+  type: string,
+  parts: string[],
+  warnings?: string[],
+) {
   const stationId =
     station.evaId || station.stationId || station.id || station.uicCode;
 
   if (
     stationId &&
     station.name &&
-    shouldUseStationId(stationId, station.name)
+    shouldUseStationId(stationId, station.name, warnings)
   ) {
     const stationData = createStationId({
       name: station.name,
@@ -0,0 +1,29 @@
+declare module "db-hafas-stations" {
+  interface HafasStationLocation {
+    id?: string;
+    type: "location";
+    latitude: number;
+    longitude: number;
+  }
+
+  export interface HafasStation {
+    id: string;
+    name: string;
+    type: "station" | "stop";
+    location?: HafasStationLocation;
+    products?: Record<string, boolean>;
+    weight?: number;
+    ril100Ids?: string[];
+    station?: HafasStation;
+  }
+
+  export interface SimplifiedHafasStation {
+    type: "station";
+    id: string;
+    name: string;
+    weight: number;
+  }
+
+  export function readSimplifiedStations(): AsyncGenerator<SimplifiedHafasStation>;
+  export function readFullStations(): AsyncGenerator<HafasStation>;
+}
@@ -5,6 +5,9 @@ declare module "db-vendo-client" {
 			to: string,
 			options: SearchJourneysOptions
 		): Promise<unknown>;
+		trip(id: string, options?: TripOptions): Promise<unknown>;
+		departures(station: string, options?: DeparturesOptions): Promise<unknown>;
+		locations(query: string, options?: LocationsOptions): Promise<unknown>;
 	}
 
 	export function createClient(
@@ -20,11 +23,37 @@ declare module "db-vendo-client" {
 		transfers: number;
 		firstClass: boolean;
 		departure?: Date;
+		via?: string;
 		loyaltyCard?: unknown;
 		age?: number;
 		deutschlandTicketDiscount?: boolean;
 		deutschlandTicketConnectionsOnly?: boolean;
 	}
+
+	export interface TripOptions {
+		stopovers?: boolean;
+		polyline?: boolean;
+		remarks?: boolean;
+		language?: string;
+	}
+
+	export interface DeparturesOptions {
+		when?: Date;
+		duration?: number;
+		results?: number | null;
+		remarks?: boolean;
+		stopovers?: boolean;
+		includeRelatedStations?: boolean;
+		language?: string;
+	}
+
+	export interface LocationsOptions {
+		results?: number;
+		stops?: boolean;
+		addresses?: boolean;
+		poi?: boolean;
+		language?: string;
+	}
 }
 
 declare module "db-vendo-client/format/loyalty-cards" {
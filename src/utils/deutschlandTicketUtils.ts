@@ -1,129 +1,26 @@
+import {
+	type DeutschlandTicketRule,
+	findCoveringRule,
+	getDeutschlandTicketRules,
+} from "@/lib/deutschland-ticket-rules";
 import type { VendoLeg } from "@/utils/schemas";
-import { getStationName } from "./journeyUtils";
-
-// Definiere spezifische IC/ICE-Strecken, die vom Deutschland-Ticket abgedeckt werden
-const deutschlandTicketICRoutes = [
-	{
-		name: "Berlin - BER - Elsterwerda",
-		stations: [
-			"Berlin Hbf",
-			"Flughafen BER Terminal 1-2",
-			"BER",
-			"Doberlug-Kirchhain",
-			"Elsterwerda",
-		],
-		trains: ["IC", "ICE 1076"], // Alle IC-Züge auf dieser Strecke plus spezifischer ICE
-	},
-	{
-		name: "Berlin - Prenzlau",
-		stations: [
-			"Berlin Südkreuz",
-			"Berlin Spandau",
-			"Berlin Gesundbrunnen",
-			"Prenzlau",
-		],
-		trains: ["IC", "ICE"], // IC- und ICE-Züge auf dieser Strecke
-	},
-	{
-		name: "Potsdam - Berlin - Cottbus",
-		stations: ["Potsdam", "Berlin Hbf", "Cottbus"],
-		trains: ["IC 2431", "IC 2432"], // Nur diese spezifischen IC-Züge
-	},
-	{
-		name: "Dresden - Freiberg - Chemnitz",
-		stations: ["Dresden", "Freiberg", "Chemnitz"],
-	},
-	{
-		name: "Dortmund - Siegen - Dillenburg",
-		stations: [
-			"Dortmund Hbf",
-			"Witten Hbf",
-			"Iserlohn-Letmathe",
-			"Altena (Westf)",
-			"Werdohl",
-			"Plettenberg",
-			"Finnentrop",
-			"Lennestadt-Grevenbrück",
-			"Lennestadt-Altenhundem",
-			"Kreuztal",
-			"Siegen-Weidenau",
-			"Siegen Hbf",
-			"Dillenburg",
-		],
-		trains: [
-			"IC 2223",
-			"IC 2225",
-			"IC 2229",
-			"IC 2323",
-			"IC 2325",
-			"IC 2327",
-			"IC 2222",
-			"IC 2224",
-			"IC 2226",
-			"IC 2320",
-			"IC 2324",
-			"IC 2326",
-			"IC 2328",
-		],
-	},
-	{
-		name: "Bremen - Oldenburg - Emden - Norddeich",
-		stations: [
-			"Bremen Hbf",
-			"Delmenhorst",
-			"Hude",
-			"Oldenburg(Oldb)Hbf",
-			"Bad Zwischenahn",
-			"Westerstede-Ocholt",
-			"Augustfehn",
-			"Leer(Ostfriesl)",
-			"Emden Hbf",
-		],
-	},
-	{
-		name: "Rostock - Stralsund",
-		stations: ["Rostock", "Ribnitz-Damgarten", "Velgast", "Stralsund"],
-	},
-	{
-		name: "Erfurt - Weimar - Jena - Gera",
-		stations: ["Erfurt", "Weimar", "Jena", "Gera"],
-	},
-	{
-		name: "Stuttgart - Horb - Singen - Konstanz",
-		stations: ["Stuttgart", "Horb", "Singen", "Konstanz"],
-	},
-];
 
+// IC/ICE-Strecken mit Deutschland-Ticket-Freigabe stehen in
+// src/data/deutschland-ticket-rules.json (Stations-IDs, Zugnummern, Gültigkeit)
 export const isICRouteCoveredByDeutschlandTicket = (leg: VendoLeg) => {
 	if (!leg?.line || !leg.origin || !leg.destination) return false;
 	const product = leg.line.product?.toLowerCase();
 	if (!product || !["national", "nationalexpress"].includes(product))
 		return false;
 
-	const originName = getStationName(leg.origin).toLowerCase();
-	const destinationName = getStationName(leg.destination).toLowerCase();
-	const lineName = leg.line.name?.toUpperCase() || "";
-
-	return deutschlandTicketICRoutes.some((route) => {
-		const stationsLower = route.stations.map((s) => s.toLowerCase());
-		const originOnRoute = stationsLower.some(
-			(s) => originName.includes(s) || s.includes(originName)
-		);
-		const destinationOnRoute = stationsLower.some(
-			(s) => destinationName.includes(s) || s.includes(destinationName)
-		);
-		if (!originOnRoute || !destinationOnRoute) return false;
-
-		if (route.trains?.length) {
-			return route.trains.some((pattern) => {
-				if (pattern === "IC")
-					return lineName.includes("IC") && !lineName.includes("ICE");
-				if (pattern === "ICE") return lineName.includes("ICE");
-				return lineName.includes(pattern);
-			});
-		}
-		return true; // no specific trains listed
-	});
+	return Boolean(
+		findCoveringRule(getDeutschlandTicketRules().rules, {
+			lineName: leg.line.name,
+			originId: leg.origin.id,
+			destinationId: leg.destination.id,
+			departure: leg.departure,
+		})
+	);
 };
 
 export const legIsFlixTrain = (leg: VendoLeg) => {
@@ -143,3 +40,146 @@ export const isLegCoveredByDeutschlandTicket = (leg: VendoLeg, hasDeutschlandTic
 		isICRouteCoveredByDeutschlandTicket(leg)
 	);
 };
+
+export const isJourneyCoveredByDeutschlandTicket = (
+	journey: { legs: VendoLeg[] },
+	hasDeutschlandTicket: boolean
+) =>
+	hasDeutschlandTicket &&
+	journey.legs.length > 0 &&
+	journey.legs.every((leg) =>
+		isLegCoveredByDeutschlandTicket(leg, hasDeutschlandTicket)
+	);
+
+// Halt eines Zuglaufs: Zwischenhalt oder, ohne Zwischenhalte, Start und Ziel
+export interface LegStop {
+	stop?: { id: string; name?: string };
+	arrival?: unknown;
+	departure?: unknown;
+}
+
+export const legStops = (leg: VendoLeg): LegStop[] =>
+	leg.stopovers && leg.stopovers.length >= 2
+		? leg.stopovers
+		: [
+				{ stop: leg.origin, departure: leg.departure },
+				{ stop: leg.destination, arrival: leg.arrival },
+			];
+
+// Abschnitt eines Zuglaufs mit gleicher Abdeckung, von Halt `from` bis Halt
+// `to` (Indizes in legStops)
+export interface CoverageSpan {
+	from: number;
+	to: number;
+	covered: boolean;
+	// Freigabe, die den IC/ICE-Abschnitt abdeckt
+	rule?: DeutschlandTicketRule;
+}
+
+// Abdeckung eines Zuglaufs in Abschnitten. Bei IC/ICE gilt von jedem Halt aus
+// die längste freigegebene Teilstrecke, damit Halte zwischen zwei Stationen
+// einer Freigabe (z.B. Hagen Hbf zwischen Dortmund und Siegen) die Abdeckung
+// nicht unterbrechen. Grundlage für Wechselpunkte und Abdeckungsbericht.
+export const findCoverageSpans = (
+	leg: VendoLeg,
+	stops: LegStop[] = legStops(leg)
+): CoverageSpan[] => {
+	const located = stops.flatMap((entry, index) =>
+		entry.stop ? [{ id: entry.stop.id, index }] : []
+	);
+	if (located.length < 2) return [];
+
+	const product = leg.line?.product?.toLowerCase() ?? "";
+	if (
+		!leg.line ||
+		legIsFlixTrain(leg) ||
+		!["national", "nationalexpress"].includes(product)
+	) {
+		// Abdeckung hängt nicht von der Teilstrecke ab
+		return [
+			{
+				from: located[0].index,
+				to: located[located.length - 1].index,
+				covered: isLegCoveredByDeutschlandTicket(leg, true),
+			},
+		];
+	}
+
+	const { rules } = getDeutschlandTicketRules();
+	const spans: CoverageSpan[] = [];
+	let start = 0;
+	while (start < located.length - 1) {
+		let end = start + 1;
+		let rule: DeutschlandTicketRule | undefined;
+		for (let candidate = located.length - 1; candidate > start; candidate--) {
+			rule = findCoveringRule(rules, {
+				lineName: leg.line.name,
+				originId: located[start].id,
+				destinationId: located[candidate].id,
+				departure: leg.departure,
+			});
+			if (rule) {
+				end = candidate;
+				break;
+			}
+		}
+
+		spans.push({
+			from: located[start].index,
+			to: located[end].index,
+			covered: Boolean(rule),
+			...(rule && { rule }),
+		});
+		start = end;
+	}
+
+	return spans;
+};
+
+// Halt, an dem die Abdeckung durch das Deutschland-Ticket wechselt
+export interface DeutschlandTicketBoundary {
+	legIndex: number;
+	stopIndex: number;
+	stop: { id: string; name?: string };
+	arrival?: string;
+	departure?: string;
+	// true: ab hier abgedeckt, false: ab hier wird ein Ticket benötigt
+	coveredFrom: boolean;
+}
+
+const asTime = (value: unknown) =>
+	typeof value === "string" ? value : undefined;
+
+// Wechselpunkte der Abdeckung über alle Zugläufe einer Verbindung
+export const findDeutschlandTicketBoundaries = (legs: VendoLeg[]) => {
+	const boundaries: DeutschlandTicketBoundary[] = [];
+	let previous: { covered: boolean; arrival?: string } | null = null;
+
+	legs.forEach((leg, legIndex) => {
+		if (leg.walking) return;
+
+		const stops = legStops(leg);
+		for (const span of findCoverageSpans(leg, stops)) {
+			const from = stops[span.from];
+
+			if (previous && previous.covered !== span.covered && from.stop) {
+				boundaries.push({
+					legIndex,
+					stopIndex: span.from,
+					stop: from.stop,
+					// Am Umstiegsbahnhof zählt die Ankunft des vorherigen Zuges
+					arrival: span.from === 0 ? previous.arrival : asTime(from.arrival),
+					departure: asTime(from.departure),
+					coveredFrom: span.covered,
+				});
+			}
+
+			previous = {
+				covered: span.covered,
+				arrival: asTime(stops[span.to].arrival),
+			};
+		}
+	});
+
+	return boundaries;
+};
@@ -1,4 +1,5 @@
 import { type ZodType, z } from "zod";
+import { fetchWithFixtures } from "@/lib/upstream-fixtures";
 
 export const fetchAndValidateJson = async <
   T extends ZodType,
@@ -29,7 +30,7 @@ export const fetchAndValidateJson = async <
     init.body = JSON.stringify(body);
   }
 
-  const response = await fetch(url, init);
+  const response = await fetchWithFixtures(url, init);
 
   if (!response.ok) {
     throw new Error(
@@ -24,6 +24,30 @@ const vendoPriceSchema = z.object({
 
 export type VendoPrice = z.infer<typeof vendoPriceSchema>;
 
+// Traveller of a group: age, BahnCard and class per person
+export const travellerSchema = z.object({
+  age: z.number().int().min(0).max(120).optional(),
+  bahnCard: z.coerce
+    .string()
+    .pipe(z.enum(["none", "25", "50", "100"]))
+    .default("none"),
+  travelClass: z.coerce
+    .number()
+    .pipe(z.union([z.literal(1), z.literal(2)]))
+    .default(2),
+});
+
+export type Traveller = z.infer<typeof travellerSchema>;
+
+export const travellersSchema = z.array(travellerSchema).min(1).max(10);
+
+// Price of a journey for a single traveller of the group
+const travellerPriceSchema = travellerSchema.extend({
+  amount: z.number().optional(),
+});
+
+export type TravellerPrice = z.infer<typeof travellerPriceSchema>;
+
 const vendoLineSchema = z.object({
   name: z.string(),
   product: z.string().optional(),
@@ -73,6 +97,8 @@ export type VendoLeg = z.infer<typeof vendoLegSchema>;
 export const vendoJourneySchema = z.object({
   legs: z.array(vendoLegSchema),
   price: vendoPriceSchema.optional(),
+  travellerPrices: z.array(travellerPriceSchema).optional(),
+  bookingUrl: z.string().optional(),
   duration: z.unknown().optional(),
 });
 
@@ -96,6 +122,8 @@ const validatedVendoLegSchema = z.object({
 export const validatedVendoJourneySchema = z.object({
   legs: z.array(validatedVendoLegSchema).min(1),
   price: vendoPriceSchema.optional(),
+  travellerPrices: z.array(travellerPriceSchema).optional(),
+  bookingUrl: z.string().optional(),
   duration: z.unknown().optional(),
 });
 
@@ -108,3 +136,33 @@ export const vbidSchema = z.object({
 });
 
 export type VbidSchema = z.infer<typeof vbidSchema>;
+
+const deeplinkStationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+});
+
+const deeplinkTariffSchema = z.object({
+  travelClass: travellerSchema.shape.travelClass,
+  bahnCard: travellerSchema.shape.bahnCard,
+  hasDeutschlandTicket: z.boolean().default(false),
+});
+
+// Deeplink request: a journey, or a station pair with departure time
+export const deeplinkRequestSchema = z.union([
+  deeplinkTariffSchema.extend({ journey: validatedVendoJourneySchema }),
+  deeplinkTariffSchema.extend({
+    from: deeplinkStationSchema,
+    to: deeplinkStationSchema,
+    departure: z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+      message: "Invalid departure date",
+    }),
+  }),
+]);
+
+export type DeeplinkRequest = z.infer<typeof deeplinkRequestSchema>;
+
+// Coverage report request: the journey to check against the Deutschland-Ticket
+export const coverageRequestSchema = z.object({
+  journey: validatedVendoJourneySchema,
+});
@@ -22,11 +22,15 @@ export interface SplitOption {
 	splitStations: VendoOriginOrDestination[];
 }
 
+export type TripDirection = "outbound" | "return";
+
 export interface ProgressInfo {
 	checked: number;
 	total: number;
 	currentStation?: string;
 	message?: string;
+	// Bei Hin- und Rückfahrt: Richtung der zuletzt geprüften Station
+	direction?: TripDirection;
 }
 
 export interface TrainLine {
@@ -42,4 +46,12 @@ export interface SplitPoint {
 	loadFactor?: unknown;
 	legIndex: number;
 	stopIndex: number;
+	// Abdeckung durch das Deutschland-Ticket beginnt oder endet hier
+	coverageBoundary?: boolean;
+}
+
+export interface MultiSplitNode {
+	station: VendoStation;
+	departure?: string;
+	trainLine?: TrainLine;
 }